@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminScope } from '@/lib/api/admin';
+import { llmUsage, type UsageRow } from '@/lib/api/llm-usage';
+import { extractionCache } from '@/lib/api/extraction-cache';
+import { ALL_LLM_PROVIDERS } from '@/lib/api/llm-providers';
+import { createLogger, withRequestLogging } from '@/lib/api/logger';
+
+const log = createLogger('admin.llm-usage');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const CACHE_HITS_NOTE =
+  'The extraction cache is shared across organizations. cache_hits count extractions answered from the cache, ' +
+  'including queries another organization ran first; their tokens and cost are billed to that organization.';
+
+/**
+ * GET /api/admin/llm-usage?organization=org_123&from=2026-01-01&to=2026-01-31
+ *
+ * LLM token usage and estimated spend per day, organization, provider and
+ * model (see lib/api/llm-usage), with totals. Platform admins see every
+ * organization and the extraction cache stats; organization admins only
+ * their own organization. The extraction cache is shared, so cache_hits
+ * include queries another organization paid for (see `notes`).
+ */
+async function getLLMUsage(request: NextRequest) {
+  const scope = await getAdminScope();
+
+  if (!scope) {
+    return NextResponse.json(
+      { error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const from = searchParams.get('from') ?? undefined;
+  const to = searchParams.get('to') ?? undefined;
+
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return NextResponse.json(
+      { error: 'from and to must be YYYY-MM-DD dates' },
+      { status: 400 }
+    );
+  }
+
+  const organization = scope.kind === 'organization'
+    ? scope.organizationId
+    : searchParams.get('organization') ?? undefined;
+  const rows = llmUsage.rows({ organization, from, to });
+
+  log.info('Usage report', { scope: scope.kind, rows: rows.length });
+
+  return NextResponse.json({
+    scope: scope.kind === 'all' ? 'all' : scope.organizationId,
+    from: from ?? null,
+    to: to ?? null,
+    totals: sumRows(rows),
+    by_organization: groupTotals(rows, row => row.organization),
+    by_provider: groupTotals(rows, row => `${row.provider}/${row.model}`),
+    rows,
+    pricing: ALL_LLM_PROVIDERS.map(({ name, model, pricing }) => ({
+      provider: name,
+      model,
+      input_cost_per_mtok: pricing?.inputPerMTok ?? null,
+      output_cost_per_mtok: pricing?.outputPerMTok ?? null,
+    })),
+    cache: scope.kind === 'all' ? extractionCache.stats() : undefined,
+    notes: { cache_hits: CACHE_HITS_NOTE },
+  });
+}
+
+function sumRows(rows: UsageRow[]) {
+  return rows.reduce(
+    (totals, row) => ({
+      requests: totals.requests + row.requests,
+      cache_hits: totals.cache_hits + row.cache_hits,
+      input_tokens: totals.input_tokens + row.input_tokens,
+      output_tokens: totals.output_tokens + row.output_tokens,
+      estimated_cost_usd: totals.estimated_cost_usd === null || row.estimated_cost_usd === null
+        ? null
+        : totals.estimated_cost_usd + row.estimated_cost_usd,
+    }),
+    { requests: 0, cache_hits: 0, input_tokens: 0, output_tokens: 0, estimated_cost_usd: 0 as number | null }
+  );
+}
+
+function groupTotals(rows: UsageRow[], keyOf: (row: UsageRow) => string) {
+  const groups = new Map<string, UsageRow[]>();
+  rows.forEach(row => groups.set(keyOf(row), [...(groups.get(keyOf(row)) ?? []), row]));
+  return Object.fromEntries([...groups].map(([key, group]) => [key, sumRows(group)]));
+}
+
+export const GET = withRequestLogging('GET /api/admin/llm-usage', getLLMUsage);
@@ -1,16 +1,66 @@
-import { NextResponse } from 'next/server';
+import { timingSafeEqual } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { BackendClient } from '@/lib/api/backend-client';
+import { getAdminScope } from '@/lib/api/admin';
+import { getDeepHealthReport } from '@/lib/api/health';
+
+const HEALTH_CHECK_TOKEN = process.env.HEALTH_CHECK_TOKEN || '';
 
 /**
  * Health check endpoint for Railway and other monitoring services
- * This endpoint is public (no authentication required)
+ * This endpoint is public in proxy.ts (no authentication required), so the
+ * shallow response carries no URLs, error text or timestamps from upstreams.
+ *
+ * GET /api/health
+ *   Liveness only - always 200 while the process is alive. Backend circuit
+ *   breaker states are reported so degraded upstreams are visible without
+ *   failing the Railway healthcheck.
+ *
+ * GET /api/health?deep=1
+ *   Probes backend, LLM providers and auth configuration. Returns 503 when
+ *   a required component is down. Requires a platform admin (ADMIN_USER_IDS)
+ *   or `Authorization: Bearer $HEALTH_CHECK_TOKEN` for external monitors.
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const deep = request.nextUrl.searchParams.get('deep');
+
+  if (deep === '1' || deep === 'true') {
+    if (!hasHealthToken(request) && (await getAdminScope())?.kind !== 'all') {
+      return NextResponse.json(
+        { error: 'Admin access or health check token required' },
+        { status: 403 }
+      );
+    }
+
+    const report = await getDeepHealthReport();
+    return NextResponse.json(report, { status: report.status === 'down' ? 503 : 200 });
+  }
+
+  const circuits = BackendClient.getCircuitStates();
+  const openCircuits = Object.values(circuits).filter(c => c.state !== 'closed').length;
+
   return NextResponse.json(
     {
       status: 'ok',
       timestamp: new Date().toISOString(),
       service: 'commonlight-crisis-portal',
+      backend: {
+        status: openCircuits === 0 ? 'ok' : 'degraded',
+        circuits: {
+          search: circuits.search.state,
+          detail: circuits.detail.state,
+          extract: circuits.extract.state,
+        },
+      },
     },
     { status: 200 }
   );
 }
+
+function hasHealthToken(request: NextRequest): boolean {
+  if (!HEALTH_CHECK_TOKEN) return false;
+
+  const given = Buffer.from(request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '');
+  const expected = Buffer.from(HEALTH_CHECK_TOKEN);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { conversationStore } from '@/lib/api/conversation-store';
+import { createLogger, withRequestLogging } from '@/lib/api/logger';
+
+const log = createLogger('llm.conversations');
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/llm/conversations/[id]
+ *
+ * Refinement history for a conversation (see POST /api/llm/extract-filters).
+ * Only the worker who started the conversation can see it.
+ */
+async function getConversation(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const { userId } = await auth();
+  const conversation = userId ? conversationStore.get(userId, id) : null;
+
+  if (!conversation) {
+    return NextResponse.json(
+      { error: 'Conversation not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(conversation);
+}
+
+/**
+ * DELETE /api/llm/conversations/[id]?turn=N
+ *
+ * Remove one turn from the refinement chain; the turns after it are
+ * replayed without it. Without `turn`, forget the whole conversation.
+ */
+async function deleteConversation(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const { userId } = await auth();
+  const turnParam = request.nextUrl.searchParams.get('turn');
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Conversation not found' },
+      { status: 404 }
+    );
+  }
+
+  if (turnParam === null) {
+    conversationStore.delete(userId, id);
+    log.info('Conversation deleted', { conversation_id: id });
+    return new NextResponse(null, { status: 204 });
+  }
+
+  const turn = Number(turnParam);
+  const conversation = Number.isInteger(turn) ? conversationStore.removeTurn(userId, id, turn) : null;
+
+  if (!conversation) {
+    return NextResponse.json(
+      { error: 'Conversation turn not found' },
+      { status: 404 }
+    );
+  }
+
+  log.info('Conversation turn removed', { conversation_id: id, turn, turns: conversation.turns.length });
+  return NextResponse.json(conversation);
+}
+
+export const GET = withRequestLogging('GET /api/llm/conversations/[id]', getConversation);
+export const DELETE = withRequestLogging('DELETE /api/llm/conversations/[id]', deleteConversation);
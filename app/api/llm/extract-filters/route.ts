@@ -1,91 +1,39 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { NextRequest, NextResponse } from 'next/server';
-import type { LLMFilterExtractionRequest, LLMFilterExtractionResponse } from '@/types/search';
+import { auth } from '@clerk/nextjs/server';
+import type {
+  CanonicalSearchFilters,
+  ExtractionStreamEvent,
+  LLMFilterExtractionRequest,
+  LLMFilterExtractionResponse,
+} from '@/types/search';
 import { BackendClient, BackendAPIError } from '@/lib/api/backend-client';
 import { extractFiltersWithFallback } from '@/lib/api/llm-fallback';
+import { validateExtractedFilters } from '@/lib/api/extraction-validator';
+import { createBasicFilters, extractRuleFilters } from '@/lib/api/keyword-extractor';
+import { mergeWithRules, withProvenance } from '@/lib/api/hybrid-extraction';
+import { redactPII, withRedactionReport } from '@/lib/api/pii-redaction';
+import { buildExtractionCacheKey, extractionCache } from '@/lib/api/extraction-cache';
+import { llmUsage } from '@/lib/api/llm-usage';
+import { normalizeAmbiguities } from '@/lib/api/ambiguity';
+import { applyFilterDelta, conversationStore } from '@/lib/api/conversation-store';
+import { createLogger, getRequestDuration, withRequestLogging } from '@/lib/api/logger';
 
-/**
- * Valid canonical service type codes from backend
- * Source: backend/vocabularies/canonical_codes.py
- */
-const VALID_SERVICE_TYPES = new Set([
-  // Crisis services
-  'crisis_line', 'crisis_text', 'crisis_chat', 'crisis_mobile',
-  'crisis_walk_in', 'crisis_stabilization', 'suicide_prevention',
-  // Inpatient
-  'inpatient_psychiatric', 'inpatient_dual_diagnosis',
-  'residential_long_term', 'residential_short_term', 'partial_hospitalization',
-  // Outpatient
-  'outpatient_therapy', 'intensive_outpatient', 'medication_management',
-  'telehealth_therapy', 'case_management', 'peer_support',
-  // Substance use
-  'detox', 'detox_social', 'sud_inpatient', 'sud_outpatient',
-  'mat', 'recovery_support', 'harm_reduction',
-  // Support groups
-  'support_group_general', 'support_group_aa', 'support_group_na',
-  'support_group_smart', 'support_group_family', 'support_group_grief',
-  // SDOH
-  'housing', 'food', 'transportation', 'legal', 'employment',
-  'healthcare', 'education', 'financial',
-]);
+const log = createLogger('llm.extract-filters');
 
-/**
- * Mapping for common LLM mistakes to correct canonical codes
- */
-const SERVICE_TYPE_ALIASES: Record<string, string> = {
-  'crisis_hotline': 'crisis_line',
-  'hotline': 'crisis_line',
-  'emergency_services': 'crisis_line',
-  'emergency': 'crisis_line',
-  '988': 'crisis_line',
-  'suicide_hotline': 'suicide_prevention',
-  'mental_health': 'outpatient_therapy',
-  'therapy': 'outpatient_therapy',
-  'counseling': 'outpatient_therapy',
-  'inpatient': 'inpatient_psychiatric',
-  'residential': 'residential_short_term',
-  'rehab': 'sud_inpatient',
-  'detoxification': 'detox',
-};
+const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
 
 /**
- * Validate and clean extracted filters by mapping and removing invalid service types
+ * Who is asking: conversations are per user, LLM usage per organization
  */
-function validateExtractedFilters(response: LLMFilterExtractionResponse, originalQuery: string): LLMFilterExtractionResponse {
-  if (response.filters?.service_types) {
-    const mappedTypes: string[] = [];
-    const invalidTypes: string[] = [];
-
-    response.filters.service_types.forEach(type => {
-      // Check if valid
-      if (VALID_SERVICE_TYPES.has(type)) {
-        mappedTypes.push(type);
-      }
-      // Check if has alias mapping
-      else if (SERVICE_TYPE_ALIASES[type]) {
-        const mapped = SERVICE_TYPE_ALIASES[type];
-        console.log(`[LLM Extract] Mapped "${type}" → "${mapped}"`);
-        mappedTypes.push(mapped);
-      }
-      // Invalid and no mapping
-      else {
-        invalidTypes.push(type);
-      }
-    });
-
-    if (invalidTypes.length > 0) {
-      console.warn('[LLM Extract] Removed invalid service types (no mapping):', invalidTypes);
-    }
-
-    response.filters.service_types = [...new Set(mappedTypes)]; // Remove duplicates
-
-    // If no service types remain after filtering, preserve original query as keywords
-    if (response.filters.service_types.length === 0 && originalQuery) {
-      console.log('[LLM Extract] No valid service types extracted, preserving original query as keywords');
-      response.filters.keywords = originalQuery;
-    }
-  }
+interface Caller {
+  userId: string | undefined;
+  organizationId: string | undefined;
+}
 
-  return response;
+interface ConversationRef {
+  userId: string;
+  conversationId: string;
 }
 
 /**
@@ -94,76 +42,76 @@ function validateExtractedFilters(response: LLMFilterExtractionResponse, origina
  * Extract structured filters from natural language query using backend LLM service.
  * Implements multi-tier fallback strategy for high availability:
  * 1. Backend LLM service (primary)
- * 2. Direct OpenAI API call (fallback 1)
- * 3. Direct Anthropic API call (fallback 2)
- * 4. Basic keyword matching (last resort)
+ * 2. Direct LLM provider calls, in LLM_PROVIDER_ORDER (see lib/api/llm-providers)
+ * 3. Basic keyword matching (last resort)
+ *
+ * The phrase rules also run before the LLM; their explicit matches are
+ * merged into the LLM's filters (see lib/api/hybrid-extraction) and
+ * response.provenance says which extractor produced each filter.
+ *
+ * With context.conversation_id the query refines the conversation's current
+ * filters: the extractor returns a delta, the turn is recorded server-side
+ * and the response carries the merged filters plus the refinement history.
+ * context.edit_turn re-runs an earlier turn instead of appending one.
+ * Conversations belong to the signed-in worker who started them.
+ *
+ * Names, dates of birth, phone numbers and other personal details are
+ * replaced with placeholders before the query reaches any extractor or log
+ * line (see lib/api/pii-redaction); metadata.redacted lists what was found.
+ *
+ * LLM results are cached per normalized query (see lib/api/extraction-cache)
+ * and every provider call is counted against the caller's organization
+ * (see lib/api/llm-usage).
+ *
+ * With Accept: application/x-ndjson the progress is streamed instead (see
+ * ExtractionStreamEvent): the rule pre-pass filters arrive before the LLM
+ * answers, so the page can start searching early.
  */
-export async function POST(request: NextRequest) {
+async function extractFilters(request: NextRequest) {
   try {
     const body: LLMFilterExtractionRequest = await request.json();
-    const { query, context } = body;
-
-    console.log('[LLM Extract] Request:', { query, context });
+    const { query: rawQuery, context } = body;
 
     // Validate input
-    if (!query || query.trim().length === 0) {
+    if (!rawQuery || rawQuery.trim().length === 0) {
       return NextResponse.json(
         { error: 'Query is required' },
         { status: 400 }
       );
     }
 
-    // PERFORMANCE: Backend LLM is currently failing (HTTP 500)
-    // Skip it entirely to avoid 7+ seconds of wasted retries
-    // TODO: Re-enable when backend LLM is fixed
-
-    // Strategy 1: Direct LLM API calls (OpenAI/Anthropic)
-    try {
-      const fallbackResponse = await extractFiltersWithFallback(query, context);
-
-      console.log('[LLM Extract] Success with', fallbackResponse.metadata.provider);
-
-      // Validate and clean extracted filters
-      const validatedResponse = validateExtractedFilters(fallbackResponse, query);
-      return NextResponse.json(validatedResponse);
-
-    } catch (llmError) {
-      console.error('[LLM Extract] LLM providers failed:', llmError);
+    const conversationId = context?.conversation_id;
+    const editTurn = context?.edit_turn;
+    const { userId, orgId } = await auth();
 
-      // Strategy 2: Return basic keyword-based filters (last resort)
-      const basicFilters: LLMFilterExtractionResponse = createBasicFilters(query);
-
-      console.log('[LLM Extract] Using basic keyword fallback');
-
-      // Validate and clean extracted filters
-      const validatedResponse = validateExtractedFilters(basicFilters, query);
-      return NextResponse.json(validatedResponse);
+    // Conversations are per user (see lib/api/conversation-store)
+    if (conversationId && !userId) {
+      return NextResponse.json(
+        { error: 'Sign in to refine a search' },
+        { status: 401 }
+      );
     }
 
-    // NOTE: Backend LLM extraction disabled due to consistent HTTP 500 errors
-    // Uncomment when backend /llm/extract-filters is fixed:
-    /*
-    try {
-      const backendResponse = await BackendClient.extractFilters(
-        query,
-        context ? {
-          current_location: context.current_location,
-          user_type: context.user_type,
-        } : undefined
-      );
+    if (editTurn !== undefined) {
+      const turns = conversationId && userId ? conversationStore.get(userId, conversationId)?.turns : undefined;
+      if (!turns || !Number.isInteger(editTurn) || editTurn < 0 || editTurn >= turns.length) {
+        return NextResponse.json(
+          { error: 'Conversation turn not found' },
+          { status: 404 }
+        );
+      }
+    }
 
-      console.log('[LLM Extract] Backend success');
-      const validatedResponse = validateExtractedFilters(backendResponse, query);
-      return NextResponse.json(validatedResponse);
+    const caller = { userId: userId ?? undefined, organizationId: orgId ?? undefined };
 
-    } catch (backendError) {
-      console.warn('[LLM Extract] Backend failed, trying fallback:', backendError);
-      // ... fallback logic
+    if (request.headers.get('accept')?.includes(NDJSON_CONTENT_TYPE)) {
+      return streamExtraction(rawQuery, context, caller, request.signal);
     }
-    */
+
+    return NextResponse.json(await runExtraction(rawQuery, context, caller));
 
   } catch (error) {
-    console.error('[LLM Extract] Fatal error:', error);
+    log.error('Fatal error', { error });
     return NextResponse.json(
       {
         error: 'Failed to extract filters',
@@ -175,69 +123,231 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Create basic keyword-based filters as last resort
+ * Streaming mode: one ExtractionStreamEvent per line as the extraction
+ * progresses, ending with filters_ready (or error). If the client goes
+ * away the extraction still finishes (and records its turn), but nothing
+ * more is written to the stream. The request log line only covers the
+ * time to headers, so the stream logs its own completion and duration.
  */
-function createBasicFilters(query: string): LLMFilterExtractionResponse {
-  const queryLower = query.toLowerCase();
-
-  // Extract care_phase using keyword matching
-  let care_phase: 'immediate_crisis' | 'acute_support' | 'recovery_support' | 'maintenance' | undefined;
-  if (queryLower.includes('emergency') || queryLower.includes('suicide') || queryLower.includes('immediate') || queryLower.includes('crisis')) {
-    care_phase = 'immediate_crisis';
-  } else if (queryLower.includes('acute') || queryLower.includes('urgent') || queryLower.includes('recent')) {
-    care_phase = 'acute_support';
-  } else if (queryLower.includes('recovery') || queryLower.includes('rehabilitation') || queryLower.includes('ongoing')) {
-    care_phase = 'recovery_support';
-  } else if (queryLower.includes('maintenance') || queryLower.includes('preventive') || queryLower.includes('wellness')) {
-    care_phase = 'maintenance';
-  }
+function streamExtraction(
+  rawQuery: string,
+  context: LLMFilterExtractionRequest['context'],
+  caller: Caller,
+  signal: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
 
-  // Extract gender_specific
-  let gender_specific: 'male' | 'female' | undefined;
-  if (queryLower.includes('women') || queryLower.includes('female') || queryLower.includes('girls')) {
-    gender_specific = 'female';
-  } else if (queryLower.includes('men') || queryLower.includes('male') || queryLower.includes('boys')) {
-    gender_specific = 'male';
-  }
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: ExtractionStreamEvent) => {
+        if (closed || signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch {
+          // Stream cancelled between the checks and the write
+          closed = true;
+        }
+      };
 
-  // Extract has_crisis_services
-  const has_crisis_services = queryLower.includes('crisis') || queryLower.includes('emergency') || queryLower.includes('hotline');
-
-  // Extract access method
-  const walk_ins_accepted = queryLower.includes('walk-in') || queryLower.includes('walk in') || queryLower.includes('drop-in') || queryLower.includes('drop in') || queryLower.includes('no appointment') || queryLower.includes('without appointment');
-  const referral_required = queryLower.includes('referral') || queryLower.includes('referred') || queryLower.includes('recommendation') || queryLower.includes('by referral');
-
-  // Build explanation
-  const explanationParts: string[] = [`Searching for resources related to: "${query}".`];
-  if (care_phase) explanationParts.push(`Identified care phase: ${care_phase}.`);
-  if (gender_specific) explanationParts.push(`Filtering for ${gender_specific}-specific services.`);
-  if (has_crisis_services) explanationParts.push('Prioritizing crisis services.');
-  if (walk_ins_accepted) explanationParts.push('Showing walk-in accessible facilities.');
-  if (referral_required) explanationParts.push('Showing referral-based services.');
-
-  explanationParts.push('(Using basic keyword matching - LLM services unavailable)');
-
-  return {
-    originalQuery: query,
-    filters: {
-      keywords: query,
-      care_phase,
-      has_crisis_services: has_crisis_services || undefined,
-      gender_specific,
-      walk_ins_accepted: walk_ins_accepted || undefined,
-      referral_required: referral_required || undefined,
-      urgentAccessOnly: queryLower.includes('urgent') || queryLower.includes('crisis') || queryLower.includes('emergency') || queryLower.includes('now') || queryLower.includes('immediate'),
-      max_distance_miles: 15, // Default 15 mile radius [bead v3n2]
+      try {
+        emit({ stage: 'received' });
+        const response = await runExtraction(rawQuery, context, caller, emit);
+        emit({ stage: 'filters_ready', response });
+      } catch (error) {
+        log.error('Fatal error', { error });
+        emit({ stage: 'error', error: error instanceof Error ? error.message : String(error) });
+      } finally {
+        log.info('Extraction stream finished', {
+          duration_ms: getRequestDuration(),
+          client_disconnected: closed,
+        });
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Already cancelled by the client
+          }
+        }
+      }
     },
-    explanation: explanationParts.join(' '),
-    confidence: 0.3,
-    metadata: {
-      provider: 'fallback',
-      model: 'keyword-matching',
-      tokens: {
-        input: query.length,
-        output: 50,
-      },
+    // Bound so the log line keeps the request's correlation id
+    cancel: AsyncLocalStorage.bind(() => {
+      closed = true;
+      log.info('Client disconnected from extraction stream', { duration_ms: getRequestDuration() });
+    }),
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': NDJSON_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+      // Stop proxies (nginx) from buffering the stream
+      'X-Accel-Buffering': 'no',
     },
+  });
+}
+
+/**
+ * Redact, run the rule pre-pass and the LLM providers (or the rules alone
+ * when every provider fails), and record the conversation turn.
+ * `emit` receives the progress events of the streaming mode.
+ */
+async function runExtraction(
+  rawQuery: string,
+  context: LLMFilterExtractionRequest['context'],
+  { userId, organizationId }: Caller,
+  emit: (event: ExtractionStreamEvent) => void = () => {}
+): Promise<LLMFilterExtractionResponse> {
+  // Everything below sees the redacted query only
+  const redaction = redactPII(rawQuery);
+  const query = redaction.text;
+  emit({ stage: 'redacted', redacted: redaction.categories });
+
+  log.info('Request', { query, redacted: redaction.categories, context });
+
+  // extractFilters answers 401 for a conversation without a signed-in user
+  const conversationRef = userId && context?.conversation_id
+    ? { userId, conversationId: context.conversation_id }
+    : undefined;
+  const editTurn = context?.edit_turn;
+
+  // Filters from earlier turns (empty for the first query)
+  const previousFilters = conversationRef
+    ? conversationStore.filtersBefore(conversationRef.userId, conversationRef.conversationId, editTurn)
+    : {};
+  const isFollowUp = Object.keys(previousFilters).length > 0;
+  const extractionContext = {
+    ...context,
+    previous_filters: isFollowUp ? previousFilters : undefined,
+    organization_id: organizationId,
   };
+
+  // Deterministic pre-pass, merged with whatever the LLM returns
+  const rulePass = extractRuleFilters(query, isFollowUp ? previousFilters : undefined);
+  emit({
+    stage: 'partial_filters',
+    filters: isFollowUp
+      ? applyFilterDelta(previousFilters, { set: rulePass.filters, remove: rulePass.remove })
+      : rulePass.filters,
+  });
+
+  // PERFORMANCE: Backend LLM is currently failing (HTTP 500)
+  // Skip it entirely - even with the extract budget and circuit breaker in
+  // BackendClient, the first failures would still cost up to 6 seconds
+  // TODO: Re-enable when backend LLM is fixed
+
+  // Strategy 1: Direct LLM API calls (provider registry)
+  try {
+    const cacheKey = buildExtractionCacheKey(query, isFollowUp ? previousFilters : undefined);
+    const cached = await extractionCache.get(cacheKey, () =>
+      extractFiltersWithFallback(query, extractionContext, ({ provider, attempt, status }) => {
+        emit({ stage: status === 'started' ? 'provider_attempt' : 'provider_failed', provider, attempt });
+      })
+    );
+
+    // The cached object is shared - validation below edits its copy
+    const fallbackResponse: LLMFilterExtractionResponse = { ...structuredClone(cached.value), originalQuery: query };
+    fallbackResponse.metadata.cache = cached.status;
+    if (cached.status !== 'miss') {
+      llmUsage.recordCacheHit(fallbackResponse.metadata.provider, fallbackResponse.metadata.model, organizationId);
+    }
+
+    log.info('Extraction succeeded', {
+      provider: fallbackResponse.metadata.provider,
+      follow_up: isFollowUp,
+      cache: cached.status,
+    });
+
+    // Validate and clean extracted filters, then merge in the rule matches
+    const validatedResponse = validateExtractedFilters(fallbackResponse, query);
+    const hybridResponse = mergeWithRules(validatedResponse, rulePass);
+    return recordTurn(
+      withRedactionReport(hybridResponse, rawQuery, redaction), query, previousFilters, conversationRef, editTurn
+    );
+
+  } catch (llmError) {
+    log.error('LLM providers failed', { error: llmError });
+    emit({ stage: 'fallback' });
+
+    // Strategy 2: Return basic keyword-based filters (last resort)
+    const basicFilters: LLMFilterExtractionResponse = createBasicFilters(
+      query,
+      isFollowUp ? previousFilters : undefined
+    );
+
+    log.info('Using basic keyword fallback');
+
+    // Validate and clean extracted filters
+    const validatedResponse = withProvenance(validateExtractedFilters(basicFilters, query), 'rule');
+    return recordTurn(
+      withRedactionReport(validatedResponse, rawQuery, redaction), query, previousFilters, conversationRef, editTurn
+    );
+  }
+
+  // NOTE: Backend LLM extraction disabled due to consistent HTTP 500 errors
+  // Uncomment when backend /llm/extract-filters is fixed:
+  /*
+  try {
+    const backendResponse = await BackendClient.extractFilters(
+      query,
+      context ? {
+        current_location: context.current_location,
+        user_type: context.user_type,
+      } : undefined
+    );
+
+    log.info('Backend success');
+    const validatedResponse = validateExtractedFilters(backendResponse, query);
+    return validatedResponse;
+
+  } catch (backendError) {
+    log.warn('Backend failed, trying fallback', { error: backendError });
+    // ... fallback logic
+  }
+  */
 }
+
+/**
+ * Record the extraction as a conversation turn and answer with the filters
+ * at the end of the chain (editing an earlier turn replays the later ones).
+ * The turn keeps the redacted query - response.originalQuery is the
+ * worker's own text, which only their browser should hold.
+ */
+function recordTurn(
+  response: LLMFilterExtractionResponse,
+  redactedQuery: string,
+  previousFilters: CanonicalSearchFilters,
+  conversationRef: ConversationRef | undefined,
+  editTurn: number | undefined
+): LLMFilterExtractionResponse {
+  if (!conversationRef) return response;
+  const { userId, conversationId } = conversationRef;
+
+  const delta = { set: response.filters, remove: response.delta?.remove ?? [] };
+  const conversation = conversationStore.saveTurn(
+    userId,
+    conversationId,
+    { query: redactedQuery, delta, explanation: response.explanation },
+    editTurn
+  );
+
+  const merged: LLMFilterExtractionResponse = {
+    ...response,
+    filters: conversation.turns.at(-1)?.filters ?? applyFilterDelta(previousFilters, delta),
+    delta,
+    conversation,
+  };
+  merged.ambiguities = normalizeAmbiguities(merged);
+
+  log.info('Conversation turn recorded', {
+    conversation_id: conversationId,
+    turn: editTurn ?? conversation.turns.length - 1,
+    turns: conversation.turns.length,
+  });
+
+  return merged;
+}
+
+export const POST = withRequestLogging('POST /api/llm/extract-filters', extractFilters);
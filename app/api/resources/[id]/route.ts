@@ -1,20 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { BackendClient, BackendAPIError } from '@/lib/api/backend-client';
+import { BackendClient, BackendAPIError, BackendValidationError } from '@/lib/api/backend-client';
+import { transformBackendResourceDetail } from '@/lib/api/transform';
+import { createLogger, withRequestLogging } from '@/lib/api/logger';
+import type { ResourceDetail } from '@/types/search';
+
+const log = createLogger('resources.detail');
 
 /**
  * GET /api/resources/[id]
  *
  * Get detailed information for a specific resource by ID.
- * Proxies to backend /v2/resources/{id} endpoint.
+ * Proxies to backend /v2/resources/{id} endpoint and normalizes the payload
+ * to ResourceDetail through the same transform layer as search.
  */
-export async function GET(
+async function getResourceDetail(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
 
-    console.log('[Resource Detail] Request for ID:', id);
+    log.info('Request', { resource_id: id });
 
     // Validate UUID format
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -29,12 +35,14 @@ export async function GET(
     try {
       const resource = await BackendClient.getResourceById(id);
 
-      console.log('[Resource Detail] Success:', { id, name: resource.name || resource.details?.name });
+      log.info('Success', { resource_id: id });
+
+      const detail: ResourceDetail = transformBackendResourceDetail(resource);
 
-      return NextResponse.json(resource);
+      return NextResponse.json(detail);
 
     } catch (backendError) {
-      console.error('[Resource Detail] Backend error:', backendError);
+      log.error('Backend error', { resource_id: id, error: backendError });
 
       if (backendError instanceof BackendAPIError) {
         if (backendError.statusCode === 404) {
@@ -48,6 +56,7 @@ export async function GET(
           {
             error: 'Failed to fetch resource',
             details: backendError.message,
+            issues: backendError instanceof BackendValidationError ? backendError.issues : undefined,
           },
           { status: backendError.statusCode || 500 }
         );
@@ -57,7 +66,7 @@ export async function GET(
     }
 
   } catch (error) {
-    console.error('[Resource Detail] Fatal error:', error);
+    log.error('Fatal error', { error });
     return NextResponse.json(
       {
         error: 'Failed to fetch resource details',
@@ -67,3 +76,5 @@ export async function GET(
     );
   }
 }
+
+export const GET = withRequestLogging('GET /api/resources/[id]', getResourceDetail);
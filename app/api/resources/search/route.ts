@@ -1,28 +1,69 @@
 import { NextRequest, NextResponse } from 'next/server';
-import type { SearchResponse, CanonicalSearchFilters } from '@/types/search';
-import { BackendClient, BackendAPIError } from '@/lib/api/backend-client';
+import { auth } from '@clerk/nextjs/server';
+import type { SearchResponse, CanonicalSearchFilters, OrganizationDefaults } from '@/types/search';
+import { BackendClient, BackendAPIError, BackendValidationError } from '@/lib/api/backend-client';
 import {
   transformFiltersToBackendParams,
   transformBackendSearchResponse
 } from '@/lib/api/transform';
+import { searchCache, buildSearchCacheKey } from '@/lib/api/search-cache';
+import { applyRequestedSort } from '@/lib/search-sort';
+import {
+  planPostFilter,
+  postFilterCacheParams,
+  runPostFilteredSearch,
+  annotatePostFilter,
+} from '@/lib/api/post-filter';
+import { buildSearchWarnings, type SearchWarningContext } from '@/lib/api/search-warnings';
+import { applyOrgDefaults, getOrgFilterProfile } from '@/lib/api/org-defaults';
+import { createLogger, withRequestLogging } from '@/lib/api/logger';
 import { FilterUtils } from '@/types/search';
+import { decodeDefaultsOff, decodeFilters } from '@/lib/filter-url';
+
+const log = createLogger('resources.search');
 
 /**
  * GET /api/resources/search
  *
  * Search resources using backend /v2/resources/search endpoint.
  * Transforms frontend filter schema to backend API format and back.
+ * Responses are cached in-process (stale-while-revalidate) keyed on the
+ * normalized backend params.
+ * sort_by/sort_order are forwarded; if the backend doesn't honor them the
+ * results are re-sorted here (ties broken by tier) and a SORT_PARTIAL
+ * warning says the order only covers the returned window.
+ * Filters the backend ignores are post-filtered here (lib/api/post-filter.ts)
+ * and applied_filters.enforcement reports how each filter was applied.
+ * Anything the worker should know about (dropped filters, injected default
+ * query, missing location) is returned in `warnings`.
+ * The caller's Clerk organization may have default filters (lib/api/org-defaults);
+ * they fill fields the request left unset, minus any in `defaults_off`, and
+ * are reported in `organization_defaults`.
  */
-export async function GET(request: NextRequest) {
+async function searchResources(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
 
-    console.log('[Resource Search] Request params:', Object.fromEntries(searchParams));
-
-    // Parse filters from URL params using existing utility
-    const filters: CanonicalSearchFilters = FilterUtils.fromURLParams(searchParams);
+    log.info('Request', { params: Object.fromEntries(searchParams) });
+
+    // Versioned filter params (lib/filter-url); unversioned ones from older clients
+    const requested: CanonicalSearchFilters = decodeFilters(searchParams) ?? FilterUtils.fromURLParams(searchParams);
+
+    // Organization defaults go in before anything reads the filters
+    const { orgId, orgSlug } = await auth();
+    const profile = getOrgFilterProfile(orgId, orgSlug);
+    let filters = requested;
+    let organizationDefaults: OrganizationDefaults | undefined;
+    if (profile) {
+      ({ filters, defaults: organizationDefaults } = applyOrgDefaults(requested, profile, decodeDefaultsOff(searchParams)));
+      log.info('Organization defaults', {
+        profile: organizationDefaults.profile,
+        applied: Object.keys(organizationDefaults.applied),
+        overridden: organizationDefaults.overridden,
+      });
+    }
 
-    console.log('[Resource Search] Parsed filters:', JSON.stringify(filters, null, 2));
+    log.debug('Parsed filters', { filters });
 
     // Validate required fields - location OR keywords must be provided
     if (!filters.location && !filters.keywords) {
@@ -34,28 +75,31 @@ export async function GET(request: NextRequest) {
 
     // Transform to backend format
     let backendParams;
+    let injectedDefault: SearchWarningContext['injectedDefault'];
     try {
       backendParams = transformFiltersToBackendParams(filters);
-      console.log('[Resource Search] Backend params:', backendParams);
+      log.debug('Backend params', { params: backendParams });
 
       // CRITICAL: Backend requires at least 'query' OR 'service_types'
       // If neither exists, add a default based on care_phase or use generic crisis search
       if (!backendParams.query && !backendParams.service_types) {
-        console.warn('[Resource Search] No query or service_types - adding default');
+        log.warn('No query or service_types - adding default');
 
         // If care_phase is immediate_crisis, default to crisis services
         if (backendParams.care_phase === 'immediate_crisis') {
           backendParams.service_types = 'crisis_line,crisis_text,crisis_chat,crisis_mobile,crisis_walk_in,suicide_prevention';
-          console.log('[Resource Search] Added default crisis service types for immediate_crisis');
+          injectedDefault = { service_types: backendParams.service_types };
+          log.info('Added default crisis service types for immediate_crisis');
         } else {
           // Otherwise, add generic query
           backendParams.query = 'mental health support';
-          console.log('[Resource Search] Added default query');
+          injectedDefault = { query: backendParams.query };
+          log.info('Added default query');
         }
       }
 
     } catch (transformError) {
-      console.error('[Resource Search] Transform error:', transformError);
+      log.error('Transform error', { error: transformError });
       return NextResponse.json(
         {
           error: 'Failed to transform filters',
@@ -66,22 +110,75 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Call backend API
+    // Call backend API (through the search cache)
     try {
-      const backendResponse = await BackendClient.searchResources(backendParams);
+      const plan = planPostFilter(filters);
+      const cacheKey = buildSearchCacheKey({
+        ...backendParams,
+        ...postFilterCacheParams(filters, plan),
+      });
+
+      const cached = await searchCache.get(cacheKey, async () => {
+        if (plan.local.length === 0) {
+          const backendResponse = await BackendClient.searchResources(backendParams);
+
+          log.info('Backend response', {
+            total: backendResponse.total,
+            results: backendResponse.results?.length || 0,
+          });
+
+          // Transform backend response to frontend format
+          return applyRequestedSort(
+            annotatePostFilter(transformBackendSearchResponse(backendResponse), filters, plan.enforcement),
+            filters
+          );
+        }
+
+        // Some filters need local enforcement - over-fetch and post-filter
+        const outcome = await runPostFilteredSearch(
+          backendParams,
+          filters,
+          plan,
+          params => BackendClient.searchResources(params)
+        );
 
-      console.log('[Resource Search] Backend response:', {
-        total: backendResponse.total,
-        results: backendResponse.results?.length || 0,
+        log.info('Post-filtered', { ...outcome.stats, local_filters: plan.local });
+
+        return applyRequestedSort(
+          annotatePostFilter(transformBackendSearchResponse(outcome.response), filters, outcome.enforcement, outcome),
+          filters
+        );
       });
 
-      // Transform backend response to frontend format
-      const frontendResponse: SearchResponse = transformBackendSearchResponse(backendResponse);
+      log.info('Search served', {
+        cache_status: cached.status,
+        cache_age_ms: cached.ageMs,
+        total: cached.value.total,
+        items: cached.value.items.length,
+      });
+
+      const frontendResponse: SearchResponse = {
+        ...cached.value,
+        warnings: buildSearchWarnings({
+          filters,
+          enforcement: cached.value.applied_filters.enforcement,
+          injectedDefault,
+          sort: cached.value.metadata.sort,
+          pagination: cached.value.pagination,
+        }),
+        organization_defaults: organizationDefaults,
+        metadata: {
+          ...cached.value.metadata,
+          from_cache: cached.status !== 'miss',
+          cache_status: cached.status,
+          cache_age_ms: cached.ageMs,
+        },
+      };
 
       return NextResponse.json(frontendResponse);
 
     } catch (backendError) {
-      console.error('[Resource Search] Backend error:', backendError);
+      log.error('Backend error', { error: backendError });
 
       if (backendError instanceof BackendAPIError) {
         return NextResponse.json(
@@ -89,6 +186,7 @@ export async function GET(request: NextRequest) {
             error: 'Backend search failed',
             details: backendError.message,
             statusCode: backendError.statusCode,
+            issues: backendError instanceof BackendValidationError ? backendError.issues : undefined,
           },
           { status: backendError.statusCode || 500 }
         );
@@ -98,7 +196,7 @@ export async function GET(request: NextRequest) {
     }
 
   } catch (error) {
-    console.error('[Resource Search] Fatal error:', error);
+    log.error('Fatal error', { error });
     return NextResponse.json(
       {
         error: 'Search failed',
@@ -108,3 +206,5 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+export const GET = withRequestLogging('GET /api/resources/search', searchResources);
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { normalizeSavedSearchName, savedSearchStore } from '@/lib/api/saved-searches';
+import { createLogger, withRequestLogging } from '@/lib/api/logger';
+
+const log = createLogger('saved-searches');
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * PATCH /api/saved-searches/[id]
+ *
+ * Rename a saved search. Body: { name }.
+ */
+async function renameSavedSearch(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Sign in to use saved searches' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  const name = normalizeSavedSearchName(body?.name);
+
+  if (!name) {
+    return NextResponse.json(
+      { error: 'Name is required (up to 80 characters)' },
+      { status: 400 }
+    );
+  }
+
+  const search = await savedSearchStore.rename(userId, id, name);
+
+  if (!search) {
+    return NextResponse.json(
+      { error: 'Saved search not found' },
+      { status: 404 }
+    );
+  }
+
+  log.info('Saved search renamed', { id });
+  return NextResponse.json(search);
+}
+
+/**
+ * DELETE /api/saved-searches/[id]
+ */
+async function deleteSavedSearch(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Sign in to use saved searches' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  if (!(await savedSearchStore.delete(userId, id))) {
+    return NextResponse.json(
+      { error: 'Saved search not found' },
+      { status: 404 }
+    );
+  }
+
+  log.info('Saved search deleted', { id });
+  return new NextResponse(null, { status: 204 });
+}
+
+export const PATCH = withRequestLogging('PATCH /api/saved-searches/[id]', renameSavedSearch);
+export const DELETE = withRequestLogging('DELETE /api/saved-searches/[id]', deleteSavedSearch);
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import {
+  SAVED_SEARCHES_MAX_PER_USER,
+  normalizeSavedSearchName,
+  savedSearchStore,
+} from '@/lib/api/saved-searches';
+import { coerceFilters } from '@/lib/api/filter-schema';
+import { redactPII } from '@/lib/api/pii-redaction';
+import { createLogger, withRequestLogging } from '@/lib/api/logger';
+
+const log = createLogger('saved-searches');
+
+const MAX_QUERY_LENGTH = 500;
+
+/**
+ * GET /api/saved-searches
+ *
+ * The signed-in worker's saved searches, most recently updated first.
+ */
+async function listSavedSearches() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Sign in to use saved searches' },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json({ searches: await savedSearchStore.list(userId) });
+}
+
+/**
+ * POST /api/saved-searches
+ *
+ * Body: { name, query, filters }. Filters are coerced like extractor output
+ * and paging is dropped; personal details in the query are redacted before
+ * it is stored (see lib/api/pii-redaction).
+ */
+async function createSavedSearch(request: NextRequest) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Sign in to use saved searches' },
+      { status: 401 }
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  const name = normalizeSavedSearchName(body?.name);
+
+  if (!name) {
+    return NextResponse.json(
+      { error: 'Name is required (up to 80 characters)' },
+      { status: 400 }
+    );
+  }
+
+  if (typeof body.query !== 'string' || body.query.length > MAX_QUERY_LENGTH) {
+    return NextResponse.json(
+      { error: `Query must be a string of up to ${MAX_QUERY_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const { filters, coercions } = coerceFilters(body.filters ?? {});
+  delete filters.limit;
+  delete filters.offset;
+
+  const search = await savedSearchStore.create(userId, {
+    name,
+    query: redactPII(body.query.trim()).text,
+    filters,
+  });
+
+  if (!search) {
+    return NextResponse.json(
+      { error: `You can keep up to ${SAVED_SEARCHES_MAX_PER_USER} saved searches - delete one first` },
+      { status: 409 }
+    );
+  }
+
+  log.info('Saved search created', { id: search.id, filters: Object.keys(filters).length, coercions: coercions.length });
+  return NextResponse.json(search, { status: 201 });
+}
+
+export const GET = withRequestLogging('GET /api/saved-searches', listSavedSearches);
+export const POST = withRequestLogging('POST /api/saved-searches', createSavedSearch);
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useLocation } from "@/components/crisis/LocationSelector";
 import { NetworkIllustration } from "@/components/crisis/NetworkIllustration";
+import { SavedSearches } from "@/components/crisis/SavedSearches";
 
 /**
  * Crisis Worker Portal Landing Page
@@ -14,6 +15,7 @@ import { NetworkIllustration } from "@/components/crisis/NetworkIllustration";
  * - Clean hero section
  * - Large search input
  * - Category quick-access
+ * - Saved searches
  * - Trust indicators
  * - Professional, calming aesthetic
  */
@@ -132,29 +134,8 @@ export default function CrisisLandingPage() {
                 </div>
               </div>
 
-              {/* Example Searches */}
-              <div className="space-y-3">
-                <p className="text-sm font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wide">
-                  Quick Examples:
-                </p>
-                <div className="flex flex-wrap gap-2">
-                  {[
-                    "Crisis support for suicidal thoughts",
-                    "Inpatient mental health treatment",
-                    "24/7 crisis hotline",
-                    "Emergency domestic violence shelter",
-                  ].map((example, index) => (
-                    <button
-                      key={index}
-                      onClick={() => setQuery(example)}
-                      className="px-4 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-full hover:border-blue-700 hover:bg-blue-50 dark:hover:bg-blue-950 transition-colors duration-200 text-gray-700 dark:text-gray-300"
-                      type="button"
-                    >
-                      {example}
-                    </button>
-                  ))}
-                </div>
-              </div>
+              {/* Saved Searches */}
+              <SavedSearches disabled={!location} />
             </div>
 
             {/* Right: Illustration */}
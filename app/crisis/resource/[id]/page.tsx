@@ -31,32 +31,15 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
+import type { ResourceDetail } from "@/types/search";
+import { getResourceRcs, getTrustLevel, formatDistance, daysSince, type TrustLevel } from "@/lib/resource-display";
+
+const TRUST_STYLES: Record<TrustLevel, { color: string; icon: typeof CheckCircle2 }> = {
+  verified: { color: 'bg-green-100 text-green-800 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-800', icon: CheckCircle2 },
+  good: { color: 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/30 dark:text-blue-300 dark:border-blue-800', icon: CheckCircle2 },
+  low: { color: 'bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900/30 dark:text-yellow-300 dark:border-yellow-800', icon: AlertCircle },
+};
 
-interface Resource {
-  id: string;
-  name: string;
-  display_name?: string;
-  description?: string;
-  city?: string;
-  state?: string;
-  street_address?: string;
-  postal_code?: string;
-  phone_numbers?: string[];
-  website?: string;
-  email?: string;
-  distance_miles?: number;
-  services?: Array<{
-    name: string;
-    service_type?: string;
-    description?: string;
-  }>;
-  provenance?: {
-    last_verified_at?: string;
-    rcs?: number;
-  };
-  avg_rcs?: number;
-  hours_text?: string;
-}
 
 /**
  * Crisis Resource Detail Page
@@ -73,7 +56,7 @@ export default function CrisisResourceDetailPage() {
   const router = useRouter();
   const resourceId = params.id as string;
 
-  const [resource, setResource] = useState<Resource | null>(null);
+  const [resource, setResource] = useState<ResourceDetail | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
@@ -84,6 +67,7 @@ export default function CrisisResourceDetailPage() {
     about: true,
     contact: true,
     location: false,
+    access: false,
     verification: false,
   });
 
@@ -104,7 +88,7 @@ export default function CrisisResourceDetailPage() {
           throw new Error('Resource not found');
         }
 
-        const data = await response.json();
+        const data: ResourceDetail = await response.json();
         setResource(data);
       } catch (err) {
         console.error('Failed to fetch resource:', err);
@@ -128,7 +112,7 @@ export default function CrisisResourceDetailPage() {
 
   const handleDirections = () => {
     if (resource) {
-      const location = [resource.city, resource.state].filter(Boolean).join(', ');
+      const location = resource.address.formatted || [resource.city, resource.state].filter(Boolean).join(', ');
       const query = encodeURIComponent(`${resource.display_name || resource.name}, ${location}`);
       window.open(`https://www.google.com/maps/search/?api=1&query=${query}`, '_blank');
     }
@@ -196,25 +180,44 @@ export default function CrisisResourceDetailPage() {
   }
 
   // Calculate trust level
-  const rcs = resource.provenance?.rcs || resource.avg_rcs || 0;
-  const getTrustLevel = (score: number) => {
-    if (score >= 0.85) return { label: 'Verified', color: 'bg-green-100 text-green-800 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-800', icon: CheckCircle2 };
-    if (score >= 0.7) return { label: 'Good Confidence', color: 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/30 dark:text-blue-300 dark:border-blue-800', icon: CheckCircle2 };
-    return { label: 'Low Confidence', color: 'bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900/30 dark:text-yellow-300 dark:border-yellow-800', icon: AlertCircle };
-  };
-
-  const trustLevel = getTrustLevel(rcs);
+  const rcs = getResourceRcs(resource);
+  const trust = getTrustLevel(rcs);
+  const trustLevel = { ...trust, ...TRUST_STYLES[trust.level] };
   const TrustIcon = trustLevel.icon;
 
   // Calculate verification freshness
   const lastVerified = resource.provenance?.last_verified_at;
-  const daysSinceVerification = lastVerified
-    ? Math.floor((Date.now() - new Date(lastVerified).getTime()) / (1000 * 60 * 60 * 24))
-    : null;
+  const daysSinceVerification = daysSince(lastVerified);
 
   const displayName = resource.display_name || resource.name;
   const location = [resource.city, resource.state].filter(Boolean).join(', ');
-  const fullAddress = [resource.street_address, resource.city, resource.state, resource.postal_code].filter(Boolean).join(', ');
+  const fullAddress = resource.address.formatted;
+  const distanceText = formatDistance(resource.distance_miles);
+
+  // Access & eligibility facts (only those the backend reported)
+  const yesNo = (value?: boolean | null) => (value === undefined || value === null ? undefined : value ? 'Yes' : 'No');
+  const { availability_status, financial_access, accessibility_details, transportation_info, population_policies } = resource;
+  const accessFacts = [
+    { label: 'Capacity', value: availability_status?.current_capacity_status },
+    { label: 'Accepting new patients', value: yesNo(availability_status?.accepting_new_patients) },
+    { label: 'Same-day / urgent access', value: yesNo(availability_status?.urgent_access_available) },
+    { label: 'Typical wait', value: availability_status?.typical_wait_days !== undefined ? `${availability_status.typical_wait_days} days` : undefined },
+    { label: 'Insurance accepted', value: financial_access?.insurance_accepted?.join(', ') },
+    { label: 'Sliding scale fees', value: yesNo(financial_access?.sliding_scale) },
+    { label: 'Charity care', value: yesNo(financial_access?.charity_care) },
+    { label: 'Wheelchair accessible', value: yesNo(accessibility_details?.wheelchair_accessible) },
+    { label: 'ASL interpretation', value: yesNo(accessibility_details?.asl_interpretation) },
+    { label: 'Telehealth', value: yesNo(accessibility_details?.telehealth_available) },
+    { label: 'Public transit nearby', value: yesNo(transportation_info?.public_transit) },
+    { label: 'Parking', value: yesNo(transportation_info?.parking) },
+    { label: 'Ride programs', value: yesNo(transportation_info?.ride_programs) },
+    { label: 'LGBTQ+ affirming', value: yesNo(population_policies?.lgbtq_affirming) },
+    { label: 'Serves undocumented individuals', value: yesNo(population_policies?.serves_undocumented) },
+    { label: 'Serves justice-involved individuals', value: yesNo(population_policies?.serves_justice_involved) },
+    { label: 'Walk-ins accepted', value: yesNo(population_policies?.walk_ins_accepted) },
+    { label: 'Referral required', value: yesNo(population_policies?.referral_required) },
+    { label: 'Languages', value: resource.languages?.join(', ') },
+  ].filter((fact): fact is { label: string; value: string } => Boolean(fact.value));
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-950 dark:to-gray-900">
@@ -263,11 +266,9 @@ export default function CrisisResourceDetailPage() {
                     <MapPin className="h-5 w-5 shrink-0 mt-0.5 text-blue-700" />
                     <div>
                       <p className="font-medium">{location}</p>
-                      {resource.distance_miles !== undefined && (
+                      {distanceText && (
                         <p className="text-sm text-gray-500 dark:text-gray-400">
-                          {resource.distance_miles < 0.1
-                            ? `${Math.round(resource.distance_miles * 5280)} ft away`
-                            : `${resource.distance_miles.toFixed(1)} mi away`}
+                          {distanceText} away
                         </p>
                       )}
                     </div>
@@ -427,6 +428,48 @@ export default function CrisisResourceDetailPage() {
               </Card>
             </Collapsible>
 
+            {/* Access & Eligibility */}
+            {accessFacts.length > 0 && (
+              <Collapsible open={openSections.access} onOpenChange={() => toggleSection('access')}>
+                <Card className="overflow-hidden shadow-md">
+                  <CollapsibleTrigger className="w-full p-6 hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <div className="p-2 bg-emerald-100 dark:bg-emerald-900/30 rounded-lg">
+                          <Users className="h-5 w-5 text-emerald-600 dark:text-emerald-400" />
+                        </div>
+                        <h2 className="text-xl font-bold text-gray-900 dark:text-white text-left">
+                          Access & Eligibility
+                        </h2>
+                      </div>
+                      {openSections.access ? (
+                        <ChevronUp className="h-5 w-5 text-gray-400" />
+                      ) : (
+                        <ChevronDown className="h-5 w-5 text-gray-400" />
+                      )}
+                    </div>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <div className="px-6 pb-6 space-y-3">
+                      {accessFacts.map((fact) => (
+                        <div
+                          key={fact.label}
+                          className="flex items-center justify-between gap-4 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg"
+                        >
+                          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                            {fact.label}
+                          </span>
+                          <span className="text-sm font-bold text-gray-900 dark:text-white text-right">
+                            {fact.value}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </CollapsibleContent>
+                </Card>
+              </Collapsible>
+            )}
+
             {/* Verification Details */}
             <Collapsible open={openSections.verification} onOpenChange={() => toggleSection('verification')}>
               <Card className="overflow-hidden shadow-md">
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback, Suspense } from "react";
+import { useState, useEffect, useCallback, useRef, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { Search, MapPin, Loader2, Filter as FilterIcon, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -9,8 +9,40 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useLocation } from "@/components/crisis/LocationSelector";
 import { CrisisSearchResults } from "@/components/crisis/CrisisSearchResults";
 import { CrisisFilters } from "@/components/crisis/CrisisFilters";
-import type { CanonicalSearchFilters, LLMFilterExtractionResponse, SearchResponse } from "@/types/search";
-import { FilterUtils } from "@/types/search";
+import { ClarifyingQuestions } from "@/components/crisis/ClarifyingQuestions";
+import { RefinementChain } from "@/components/crisis/RefinementChain";
+import { ActiveFilterChips } from "@/components/crisis/ActiveFilterChips";
+import { SaveSearchButton } from "@/components/crisis/SaveSearchButton";
+import type {
+  CanonicalSearchFilters,
+  ConversationState,
+  ConversationTurn,
+  FilterAmbiguity,
+  LLMFilterExtractionResponse,
+  SearchResponse,
+  SortField,
+  SortOrder,
+} from "@/types/search";
+import {
+  DEFAULT_PAGE_SIZE,
+  getPageWindow,
+  hasMoreResults,
+  mergeResultPages,
+  parsePageParam,
+  loadPaginationMode,
+  savePaginationMode,
+  type PaginationMode,
+} from "@/lib/search-pagination";
+import { getDefaultSortOrder } from "@/lib/search-sort";
+import { decodeDefaultsOff, decodeFilters, encodeDefaultsOff, encodeFilters } from "@/lib/filter-url";
+import { applyAmbiguityAnswer, splitAmbiguities } from "@/lib/clarifications";
+import {
+  EXTRACTION_STREAM_ACCEPT,
+  canSearchEarly,
+  describeStage,
+  readExtractionStream,
+  sameFilters,
+} from "@/lib/extraction-stream";
 
 /**
  * Crisis Search Results Page
@@ -20,6 +52,12 @@ import { FilterUtils } from "@/types/search";
  * - Location-aware search (required)
  * - Minimal filters (max 4)
  * - Clean, focused results display
+ * - Paginated results (numbered pages or infinite scroll); the query and
+ *   page stay in the URL so "back" from a resource restores the position
+ * - Conversational refinement: each new search starts a conversation and
+ *   follow-ups ("closer than that") refine its filters server-side
+ * - Streamed extraction: progress replaces the generic overlay text, and the
+ *   search starts on the phrase-matched filters once the care phase is known
  */
 function SearchPageContent() {
   const router = useRouter();
@@ -35,21 +73,101 @@ function SearchPageContent() {
   const [error, setError] = useState<string | null>(null);
   const [showFilters, setShowFilters] = useState(false);
   const [lastExtraction, setLastExtraction] = useState<LLMFilterExtractionResponse | null>(null);
+  // Progress of the running extraction (null when idle)
+  const [extractionStage, setExtractionStage] = useState<string | null>(null);
 
-  // Process URL query parameter when location is ready
+  // Clarifying questions: critical ones hold the search until answered,
+  // refinements are offered once results are shown
+  const [clarification, setClarification] = useState<{
+    pending: FilterAmbiguity[];
+    filters: CanonicalSearchFilters;
+    page: number;
+  } | null>(null);
+  const [refinements, setRefinements] = useState<FilterAmbiguity[]>([]);
+
+  // Refinement conversation for the current search
+  const conversationIdRef = useRef<string | null>(null);
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+
+  // Pagination state
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
+  const [paginationMode, setPaginationMode] = useState<PaginationMode>('infinite');
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const activeQueryRef = useRef("");
+  const urlRestoredRef = useRef(false);
+  // Only the latest search may set results (an early search can still be in flight)
+  const searchSeqRef = useRef(0);
+  // Organization defaults the worker turned off for the current search
+  const defaultsOffRef = useRef<Array<keyof CanonicalSearchFilters>>([]);
+
+  useEffect(() => {
+    setPaginationMode(loadPaginationMode());
+  }, []);
+
+  // Restore the search from the URL when location is ready: filters saved
+  // by syncURL are searched as-is (no LLM call), a bare ?q= is extracted
   useEffect(() => {
+    if (!location || urlRestoredRef.current) return;
+    urlRestoredRef.current = true;
+
     const urlQuery = searchParams.get('q');
-    if (urlQuery && location && !query) {
-      // Only trigger if we haven't set the query yet (prevents duplicate searches)
+    const initialPage = parsePageParam(searchParams.get('page'));
+    const urlFilters = decodeFilters(searchParams);
+
+    if (urlFilters) {
+      activeQueryRef.current = urlQuery ?? '';
+      defaultsOffRef.current = decodeDefaultsOff(searchParams);
+      setQuery(urlQuery ?? '');
+      setFilters(urlFilters);
+      executeSearch(urlFilters, { page: initialPage });
+    } else if (urlQuery) {
       setQuery(urlQuery);
-      handleSearch(urlQuery);
-      // Clean URL
-      router.replace('/crisis/search', { scroll: false });
+      handleSearch(urlQuery, initialPage);
     }
   }, [location]); // Run when location becomes available
 
+  // Keep query, page and every filter in the URL (replace, so paging
+  // doesn't flood history) - the URL can be bookmarked or shared
+  const syncURL = useCallback((currentPage: number, searchFilters: CanonicalSearchFilters) => {
+    const params = new URLSearchParams();
+    if (activeQueryRef.current) params.set('q', activeQueryRef.current);
+    if (currentPage > 1) params.set('page', String(currentPage));
+    encodeDefaultsOff(defaultsOffRef.current, encodeFilters(searchFilters, params));
+    router.replace(`/crisis/search?${params.toString()}`, { scroll: false });
+  }, [router]);
+
+  // Extracted filters + the page's own context (location, sort)
+  const withPageContext = useCallback((extracted: CanonicalSearchFilters): CanonicalSearchFilters => ({
+    ...extracted,
+    // Add location from selector
+    location: location?.coordinates
+      ? {
+          address: location.displayName,
+          city: location.name.split(',')[0],
+          state: location.name.split(',')[1]?.trim(),
+          postalCode: undefined,
+          coordinates: {
+            lat: location.coordinates.lat,
+            lon: location.coordinates.lng,
+          },
+        }
+      : undefined,
+    // Don't force urgentAccessOnly - let LLM extraction or user control it
+    // urgentAccessOnly: extraction.filters.urgentAccessOnly ?? true,
+    // Keep the worker's chosen sort across new queries
+    sort_by: extracted.sort_by ?? filters.sort_by,
+    sort_order: extracted.sort_by ? extracted.sort_order : filters.sort_order,
+  }), [location, filters.sort_by, filters.sort_order]);
+
   // Handle natural language search
-  const handleSearch = useCallback(async (searchQuery?: string) => {
+  // A refinement adds (or with editTurn, rewords) a turn of the current
+  // conversation; anything else starts a new conversation.
+  const handleSearch = useCallback(async (
+    searchQuery?: string,
+    initialPage = 1,
+    refinement?: { editTurn?: number }
+  ) => {
     const queryToUse = searchQuery || query;
 
     // Validate location
@@ -65,14 +183,21 @@ function SearchPageContent() {
     }
 
     setIsProcessing(true);
+    setExtractionStage(null);
     setError(null);
 
+    if (!refinement || !conversationIdRef.current) {
+      conversationIdRef.current = crypto.randomUUID();
+      activeQueryRef.current = queryToUse;
+      defaultsOffRef.current = [];
+    }
+
     try {
       // Step 1: Extract filters using LLM
       console.log('Extracting filters for query:', queryToUse);
       const extractResponse = await fetch('/api/llm/extract-filters', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Accept: EXTRACTION_STREAM_ACCEPT },
         body: JSON.stringify({
           query: queryToUse,
           context: {
@@ -80,6 +205,8 @@ function SearchPageContent() {
               ? { lat: location.coordinates.lat, lon: location.coordinates.lng }
               : undefined,
             user_type: 'crisis_worker',
+            conversation_id: conversationIdRef.current,
+            edit_turn: refinement?.editTurn,
           },
         }),
       });
@@ -88,50 +215,83 @@ function SearchPageContent() {
         throw new Error('Failed to process search query');
       }
 
-      const extraction: LLMFilterExtractionResponse = await extractResponse.json();
+      // Search on the phrase matches while the LLM is still working
+      let earlyFilters: CanonicalSearchFilters | null = null;
+      const extraction = await readExtractionStream(extractResponse, event => {
+        setExtractionStage(describeStage(event));
+        if (event.stage === 'partial_filters' && !earlyFilters && canSearchEarly(event.filters)) {
+          earlyFilters = event.filters;
+          const searchFilters = withPageContext(event.filters);
+          setFilters(searchFilters);
+          setIsProcessing(false);
+          executeSearch(searchFilters, { page: initialPage });
+        }
+      });
       console.log('LLM extraction result:', extraction);
+      setExtractionStage(null);
       setLastExtraction(extraction);
+      setTurns(extraction.conversation?.turns ?? []);
 
       // Step 2: Apply extracted filters + location
-      const searchFilters: CanonicalSearchFilters = {
-        ...extraction.filters,
-        // Add location from selector
-        location: location.coordinates
-          ? {
-              address: location.displayName,
-              city: location.name.split(',')[0],
-              state: location.name.split(',')[1]?.trim(),
-              postalCode: undefined,
-              coordinates: {
-                lat: location.coordinates.lat,
-                lon: location.coordinates.lng,
-              },
-            }
-          : undefined,
-        // Don't force urgentAccessOnly - let LLM extraction or user control it
-        // urgentAccessOnly: extraction.filters.urgentAccessOnly ?? true,
-      };
+      // (for a refinement these are the whole conversation's filters)
+      const searchFilters = withPageContext(extraction.filters);
 
       setFilters(searchFilters);
       setIsProcessing(false);
 
-      // Step 3: Execute search
-      await executeSearch(searchFilters);
+      // Step 3: Ask critical questions first, or execute search
+      const { critical, refinements: optionalQuestions } = splitAmbiguities(extraction.ambiguities);
+      setRefinements(optionalQuestions);
+
+      if (critical.length > 0) {
+        searchSeqRef.current++;
+        setIsSearching(false);
+        setResults(null);
+        setClarification({ pending: critical, filters: searchFilters, page: initialPage });
+        return;
+      }
+
+      setClarification(null);
+      if (earlyFilters && sameFilters(earlyFilters, extraction.filters)) return;
+      await executeSearch(searchFilters, { page: initialPage });
     } catch (err) {
       console.error('Search error:', err);
       setError(err instanceof Error ? err.message : 'Search failed');
+      setExtractionStage(null);
       setIsProcessing(false);
       setIsSearching(false);
     }
-  }, [query, location, router]);
+  }, [query, location, router, withPageContext]);
 
   // Execute search with given filters
-  const executeSearch = useCallback(async (searchFilters: CanonicalSearchFilters) => {
-    setIsSearching(true);
+  // Pagination options default to current state; pass them explicitly when
+  // they change in the same tick (mode / page size switches).
+  const executeSearch = useCallback(async (
+    searchFilters: CanonicalSearchFilters,
+    options: { page?: number; append?: boolean; mode?: PaginationMode; pageSize?: number } = {}
+  ) => {
+    const {
+      page: targetPage = 1,
+      append = false,
+      mode = paginationMode,
+      pageSize: size = pageSize,
+    } = options;
+
+    const seq = ++searchSeqRef.current;
+    if (append) {
+      setIsLoadingMore(true);
+    } else {
+      setIsSearching(true);
+    }
     setError(null);
 
     try {
-      const params = FilterUtils.toURLParams(searchFilters);
+      // Loading more fetches just the next page; otherwise fetch the window for targetPage
+      const { page: loadedPage, ...window } = append
+        ? { limit: size, offset: (targetPage - 1) * size, page: targetPage }
+        : getPageWindow(targetPage, size, mode);
+
+      const params = encodeDefaultsOff(defaultsOffRef.current, encodeFilters({ ...searchFilters, ...window }));
       const url = `/api/resources/search?${params.toString()}`;
       console.log('Searching:', url);
 
@@ -143,21 +303,147 @@ function SearchPageContent() {
 
       const data: SearchResponse = await response.json();
       console.log('Search results:', data);
-      setResults(data);
+      if (seq !== searchSeqRef.current) return;
+      setResults(prev => (append && prev ? mergeResultPages(prev, data) : data));
+      setPage(loadedPage);
+      syncURL(loadedPage, searchFilters);
     } catch (err) {
       console.error('Search execution error:', err);
-      setError(err instanceof Error ? err.message : 'Search failed');
+      if (seq === searchSeqRef.current) setError(err instanceof Error ? err.message : 'Search failed');
     } finally {
-      setIsSearching(false);
+      if (seq === searchSeqRef.current) {
+        setIsSearching(false);
+        setIsLoadingMore(false);
+      }
     }
-  }, []);
+  }, [paginationMode, pageSize, syncURL]);
 
-  // Handle filter changes
+  // Handle filter changes (always back to the first page)
   const handleFilterChange = useCallback((newFilters: CanonicalSearchFilters) => {
     setFilters(newFilters);
-    executeSearch(newFilters);
+    executeSearch(newFilters, { page: 1 });
   }, [executeSearch]);
 
+  // Organization defaults: turn one off, or undo every override
+  const handleDefaultOff = useCallback((key: keyof CanonicalSearchFilters) => {
+    defaultsOffRef.current = [...defaultsOffRef.current, key];
+    executeSearch(filters, { page: 1 });
+  }, [filters, executeSearch]);
+
+  const handleRestoreDefaults = useCallback(() => {
+    const overridden = results?.organization_defaults?.overridden ?? [];
+    defaultsOffRef.current = [];
+    handleFilterChange({
+      ...filters,
+      ...Object.fromEntries(overridden.map(key => [key, undefined])),
+    });
+  }, [filters, results, handleFilterChange]);
+
+  // Critical question answered - search once none are left
+  const handleClarificationAnswer = useCallback((
+    ambiguity: FilterAmbiguity,
+    value: FilterAmbiguity['options'][number]['value']
+  ) => {
+    if (!clarification) return;
+
+    const nextFilters = applyAmbiguityAnswer(clarification.filters, ambiguity, value);
+    const pending = clarification.pending.filter(a => a !== ambiguity);
+
+    if (pending.length > 0) {
+      setClarification({ ...clarification, pending, filters: nextFilters });
+      return;
+    }
+
+    setClarification(null);
+    setFilters(nextFilters);
+    executeSearch(nextFilters, { page: clarification.page });
+  }, [clarification, executeSearch]);
+
+  const handleSkipClarification = useCallback(() => {
+    if (!clarification) return;
+    setClarification(null);
+    setFilters(clarification.filters);
+    executeSearch(clarification.filters, { page: clarification.page });
+  }, [clarification, executeSearch]);
+
+  // Refinement answered - merge into filters and re-run
+  const handleRefinementAnswer = useCallback((
+    ambiguity: FilterAmbiguity,
+    value: FilterAmbiguity['options'][number]['value']
+  ) => {
+    setRefinements(prev => prev.filter(a => a !== ambiguity));
+    handleFilterChange(applyAmbiguityAnswer(filters, ambiguity, value));
+  }, [filters, handleFilterChange]);
+
+  const handleDismissRefinement = useCallback((ambiguity?: FilterAmbiguity) => {
+    setRefinements(prev => prev.filter(a => a !== ambiguity));
+  }, []);
+
+  // Refinement chain handlers
+  const handleRefine = useCallback((followUp: string) => {
+    handleSearch(followUp, 1, {});
+  }, [handleSearch]);
+
+  const handleEditTurn = useCallback((index: number, turnQuery: string) => {
+    handleSearch(turnQuery, 1, { editTurn: index });
+  }, [handleSearch]);
+
+  const handleRemoveTurn = useCallback(async (index: number) => {
+    const conversationId = conversationIdRef.current;
+    if (!conversationId) return;
+
+    try {
+      const response = await fetch(
+        `/api/llm/conversations/${encodeURIComponent(conversationId)}?turn=${index}`,
+        { method: 'DELETE' }
+      );
+      if (!response.ok) {
+        throw new Error('Could not remove that refinement - try a new search');
+      }
+
+      const conversation: ConversationState = await response.json();
+      setTurns(conversation.turns);
+
+      const remaining = conversation.turns.at(-1);
+      if (remaining) handleFilterChange(withPageContext(remaining.filters));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not remove refinement');
+    }
+  }, [handleFilterChange, withPageContext]);
+
+  // Sort changes re-run the search from the first page
+  const handleSortChange = useCallback((sortBy: SortField, sortOrder: SortOrder) => {
+    handleFilterChange({
+      ...filters,
+      sort_by: sortBy === 'relevance' ? undefined : sortBy,
+      sort_order: sortBy === 'relevance' ? undefined : sortOrder,
+    });
+  }, [filters, handleFilterChange]);
+
+  // Pagination handlers
+  const handlePageChange = useCallback((newPage: number) => {
+    executeSearch(filters, { page: newPage });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }, [executeSearch, filters]);
+
+  const handleLoadMore = useCallback(() => {
+    if (isLoadingMore) return;
+    executeSearch(filters, { page: page + 1, append: true });
+  }, [executeSearch, filters, page, isLoadingMore]);
+
+  const handlePageSizeChange = useCallback((size: number) => {
+    setPageSize(size);
+    executeSearch(filters, { page: 1, pageSize: size });
+  }, [executeSearch, filters]);
+
+  const handlePaginationModeChange = useCallback((mode: PaginationMode) => {
+    if (mode === paginationMode) return;
+    setPaginationMode(mode);
+    savePaginationMode(mode);
+    // Keep the worker's position: same page, re-fetched in the new mode
+    executeSearch(filters, { page, mode });
+  }, [executeSearch, filters, page, paginationMode]);
+
   // Handle new search
   const handleNewSearch = useCallback(() => {
     router.push('/crisis');
@@ -179,8 +465,8 @@ function SearchPageContent() {
               <div className="text-lg font-semibold text-gray-900 dark:text-gray-100">
                 Finding resources...
               </div>
-              <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                Analyzing your search
+              <div className="text-sm text-gray-600 dark:text-gray-400 mt-1" aria-live="polite">
+                {extractionStage ?? 'Analyzing your search'}
               </div>
             </div>
           </div>
@@ -226,28 +512,64 @@ function SearchPageContent() {
               </Button>
             </form>
 
+            {/* Active filters: what the search runs with, and where each came from */}
+            <ActiveFilterChips
+              filters={filters}
+              extraction={lastExtraction}
+              defaults={results?.organization_defaults}
+              disabled={isProcessing || isSearching}
+              onChange={handleFilterChange}
+              onDefaultOff={handleDefaultOff}
+              onRestoreDefaults={handleRestoreDefaults}
+            />
+
             {/* Filters Toggle */}
             <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
               <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 truncate max-w-full sm:max-w-md">
-                {lastExtraction && (
+                {extractionStage && !isProcessing ? (
+                  <span className="flex items-center gap-1.5" aria-live="polite">
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    Refining filters: {extractionStage}
+                  </span>
+                ) : lastExtraction && turns.length === 0 && (
                   <span className="italic truncate">
                     "{lastExtraction.originalQuery}"
                   </span>
                 )}
               </div>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setShowFilters(!showFilters)}
-                className="gap-2 shrink-0"
-                aria-label={showFilters ? 'Hide filters' : 'Show filters'}
-                aria-expanded={showFilters}
-              >
-                <FilterIcon className="h-4 w-4" />
-                <span className="hidden sm:inline">Filters</span>
-              </Button>
+              <div className="flex items-center gap-1 shrink-0">
+                {results && (
+                  <SaveSearchButton
+                    query={activeQueryRef.current}
+                    filters={filters}
+                    disabled={isProcessing || isSearching}
+                  />
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowFilters(!showFilters)}
+                  className="gap-2 shrink-0"
+                  aria-label={showFilters ? 'Hide filters' : 'Show filters'}
+                  aria-expanded={showFilters}
+                >
+                  <FilterIcon className="h-4 w-4" />
+                  <span className="hidden sm:inline">Filters</span>
+                </Button>
+              </div>
             </div>
 
+            {/* Refinement history + follow-up input */}
+            {turns.length > 0 && (
+              <RefinementChain
+                turns={turns}
+                disabled={isProcessing || isSearching}
+                onRefine={handleRefine}
+                onEdit={handleEditTurn}
+                onRemove={handleRemoveTurn}
+              />
+            )}
+
             {/* Filters Panel */}
             {showFilters && (
               <CrisisFilters
@@ -308,11 +630,51 @@ function SearchPageContent() {
             </div>
           )}
 
+          {/* Critical clarifying questions (before searching) */}
+          {clarification && !isProcessing && (
+            <div className="max-w-2xl mx-auto">
+              <ClarifyingQuestions
+                variant="critical"
+                ambiguities={clarification.pending}
+                onAnswer={handleClarificationAnswer}
+                onSkip={handleSkipClarification}
+              />
+            </div>
+          )}
+
+          {/* Refinements (after results load) */}
+          {!isSearching && !isProcessing && results && refinements.length > 0 && (
+            <div className="mb-4">
+              <ClarifyingQuestions
+                variant="refinement"
+                ambiguities={refinements}
+                onAnswer={handleRefinementAnswer}
+                onSkip={handleDismissRefinement}
+              />
+            </div>
+          )}
+
           {/* Results */}
           {!isSearching && !isProcessing && results && (
             <CrisisSearchResults
               results={results}
               userLocation={location?.coordinates}
+              pagination={{
+                mode: paginationMode,
+                page,
+                pageSize,
+                hasMore: hasMoreResults(results),
+                isLoadingMore,
+                onPageChange: handlePageChange,
+                onPageSizeChange: handlePageSizeChange,
+                onLoadMore: handleLoadMore,
+                onModeChange: handlePaginationModeChange,
+              }}
+              sort={{
+                sortBy: filters.sort_by ?? 'relevance',
+                sortOrder: filters.sort_order ?? getDefaultSortOrder(filters.sort_by ?? 'relevance'),
+                onSortChange: handleSortChange,
+              }}
             />
           )}
       </div>
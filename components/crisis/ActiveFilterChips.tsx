@@ -0,0 +1,246 @@
+"use client";
+
+import { useState } from "react";
+import type { CanonicalSearchFilters, FilterSource, LLMFilterExtractionResponse, OrganizationDefaults } from "@/types/search";
+import { Building2, Check, CheckCheck, RotateCcw, Sparkles, TextSearch, UserRound, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FILTER_SCHEMA, coerceFilters } from "@/lib/api/filter-schema";
+import { describeFilter, getFilterLabel, isChipField } from "@/lib/filter-labels";
+
+type FilterKey = keyof CanonicalSearchFilters;
+
+/** Where a chip's current value came from */
+type ChipSource = FilterSource | "user" | "default";
+
+interface ActiveFilterChipsProps {
+  filters: CanonicalSearchFilters;
+  /** Last extraction - its filters still in place are marked as inferred */
+  extraction: LLMFilterExtractionResponse | null;
+  /** Organization defaults the last search ran with */
+  defaults?: OrganizationDefaults;
+  disabled?: boolean;
+  onChange: (filters: CanonicalSearchFilters) => void;
+  /** Turn one organization default off for this search */
+  onDefaultOff?: (key: FilterKey) => void;
+  /** Undo every override of the organization defaults */
+  onRestoreDefaults?: () => void;
+}
+
+const SOURCES: Record<ChipSource, { label: string; icon: typeof Sparkles; className: string }> = {
+  rule: {
+    label: "Matched in query text",
+    icon: TextSearch,
+    className: "border-blue-300 text-blue-800 dark:border-blue-700 dark:text-blue-300",
+  },
+  llm: {
+    label: "Inferred by AI",
+    icon: Sparkles,
+    className: "border-purple-300 text-purple-800 dark:border-purple-700 dark:text-purple-300",
+  },
+  both: {
+    label: "Matched in query text and inferred by AI",
+    icon: CheckCheck,
+    className: "border-green-300 text-green-800 dark:border-green-700 dark:text-green-300",
+  },
+  user: {
+    label: "Set by you",
+    icon: UserRound,
+    className: "border-gray-300 text-gray-800 dark:border-gray-600 dark:text-gray-200",
+  },
+  default: {
+    label: "Organization default",
+    icon: Building2,
+    className: "border-dashed border-amber-400 text-amber-800 dark:border-amber-600 dark:text-amber-300",
+  },
+};
+
+function isActive(value: unknown): boolean {
+  return value !== undefined && !(Array.isArray(value) && value.length === 0);
+}
+
+function chipSource(key: FilterKey, filters: CanonicalSearchFilters, extraction: LLMFilterExtractionResponse | null): ChipSource {
+  // A value changed by hand since the extraction is the worker's own
+  if (!extraction || JSON.stringify(extraction.filters[key]) !== JSON.stringify(filters[key])) return "user";
+  return extraction.provenance?.[key] ?? "llm";
+}
+
+/**
+ * Text form of a value for the inline editor ("es, en", "10")
+ */
+function editableText(value: unknown): string {
+  return Array.isArray(value) ? value.join(", ") : String(value ?? "");
+}
+
+/**
+ * Active Filter Chips
+ *
+ * Every filter the search runs with, each marked as inferred from the query,
+ * set by the worker or an organization default. A chip removes its filter in
+ * one click and can be edited in place, so a wrong inference ("men" →
+ * male-only) is undone without rewording the query. Removing a default turns
+ * it off for this search; editing one overrides it.
+ */
+export function ActiveFilterChips({
+  filters,
+  extraction,
+  defaults,
+  disabled,
+  onChange,
+  onDefaultOff,
+  onRestoreDefaults,
+}: ActiveFilterChipsProps) {
+  const [editing, setEditing] = useState<{ key: FilterKey; text: string; invalid?: boolean } | null>(null);
+
+  // Defaults only fill fields the worker left unset
+  const isDefault = (key: FilterKey) => defaults?.applied[key] !== undefined && filters[key] === undefined;
+  const valueOf = (key: FilterKey) => (isDefault(key) ? defaults?.applied[key] : filters[key]);
+
+  const keys = [...new Set([...Object.keys(filters), ...Object.keys(defaults?.applied ?? {})] as FilterKey[])]
+    .filter(key => isChipField(key) && isActive(valueOf(key)));
+  const canRestore = Boolean(defaults?.overridden.length && onRestoreDefaults);
+
+  if (keys.length === 0 && !extraction?.explanation && !canRestore) return null;
+
+  const remove = (key: FilterKey) => {
+    if (isDefault(key)) onDefaultOff?.(key);
+    else onChange({ ...filters, [key]: undefined });
+  };
+
+  const apply = (key: FilterKey, raw: unknown) => {
+    // Same coercion as extractor output: aliases, "10 miles", comma lists
+    const { filters: coerced } = coerceFilters({ [key]: raw });
+    if (coerced[key] === undefined) {
+      setEditing(current => current && { ...current, invalid: true });
+      return;
+    }
+    setEditing(null);
+    onChange({ ...filters, [key]: coerced[key] });
+  };
+
+  const submitEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editing) apply(editing.key, editing.text);
+  };
+
+  const renderEditor = (key: FilterKey) => {
+    const spec = FILTER_SCHEMA[key];
+    const label = getFilterLabel(key);
+
+    if (spec.kind === "boolean" || spec.kind === "enum") {
+      const values = spec.kind === "boolean" ? ["true", "false"] : spec.values;
+      return (
+        <Select
+          defaultOpen
+          value={String(valueOf(key))}
+          onValueChange={(value) => apply(key, spec.kind === "boolean" ? value === "true" : value)}
+          onOpenChange={(open) => !open && setEditing(null)}
+        >
+          <SelectTrigger className="h-7 w-auto gap-1 text-xs" aria-label={`Edit ${label}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {values.map(value => (
+              <SelectItem key={value} value={value}>
+                {spec.kind === "boolean" ? describeFilter(key, value === "true") : describeFilter(key, value)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <form onSubmit={submitEdit} className="flex items-center gap-1">
+        <Input
+          value={editing?.text ?? ""}
+          onChange={(e) => setEditing({ key, text: e.target.value })}
+          onKeyDown={(e) => e.key === "Escape" && setEditing(null)}
+          className="h-7 w-40 text-xs"
+          aria-label={`Edit ${label}`}
+          aria-invalid={editing?.invalid || undefined}
+          title={editing?.invalid ? `Not a valid ${label.toLowerCase()}` : undefined}
+          autoFocus
+        />
+        <Button type="submit" size="sm" variant="ghost" className="h-7 w-7 p-0" aria-label="Save">
+          <Check className="h-3.5 w-3.5" />
+        </Button>
+        <Button type="button" size="sm" variant="ghost" className="h-7 w-7 p-0" aria-label="Cancel" onClick={() => setEditing(null)}>
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {extraction?.explanation && (
+        <p className="flex items-start gap-1.5 text-sm text-gray-600 dark:text-gray-400">
+          <Sparkles className="h-3.5 w-3.5 mt-0.5 shrink-0 text-purple-600" aria-hidden="true" />
+          {extraction.explanation}
+        </p>
+      )}
+
+      {(keys.length > 0 || canRestore) && (
+        <ul className="flex flex-wrap gap-1.5" aria-label="Active filters">
+          {keys.map(key => {
+            const source = isDefault(key) ? "default" : chipSource(key, filters, extraction);
+            const { className, icon: Icon } = SOURCES[source];
+            const label = source === "default" ? `Default for ${defaults?.profile}` : SOURCES[source].label;
+            const text = describeFilter(key, valueOf(key));
+
+            return (
+              <li key={key}>
+                {editing?.key === key ? renderEditor(key) : (
+                  <Badge variant="outline" className={`gap-1 pr-0.5 font-normal ${className}`}>
+                    <Icon className="h-3 w-3" aria-hidden="true" />
+                    <button
+                      type="button"
+                      className="hover:underline disabled:no-underline"
+                      title={`${label} - click to edit`}
+                      disabled={disabled}
+                      onClick={() => setEditing({ key, text: editableText(valueOf(key)) })}
+                    >
+                      {text}
+                      <span className="sr-only"> ({label}, edit)</span>
+                    </button>
+                    <button
+                      type="button"
+                      className="ml-0.5 rounded-full p-0.5 hover:bg-gray-200 dark:hover:bg-gray-700"
+                      aria-label={`Remove ${text}`}
+                      disabled={disabled}
+                      onClick={() => remove(key)}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                )}
+              </li>
+            );
+          })}
+          {canRestore && (
+            <li>
+              <button
+                type="button"
+                className="flex items-center gap-1 px-1 text-xs text-amber-800 hover:underline dark:text-amber-300"
+                disabled={disabled}
+                onClick={onRestoreDefaults}
+              >
+                <RotateCcw className="h-3 w-3" aria-hidden="true" />
+                Restore {defaults?.profile} defaults
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
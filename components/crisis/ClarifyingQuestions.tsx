@@ -0,0 +1,95 @@
+"use client";
+
+import type { FilterAmbiguity } from "@/types/search";
+import { HelpCircle, Sparkles, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+
+type AmbiguityValue = FilterAmbiguity['options'][number]['value'];
+
+interface ClarifyingQuestionsProps {
+  ambiguities: FilterAmbiguity[];
+  /**
+   * critical: asked before searching (with a "search anyway" escape)
+   * refinement: offered alongside results
+   */
+  variant: 'critical' | 'refinement';
+  onAnswer: (ambiguity: FilterAmbiguity, value: AmbiguityValue) => void;
+  /** critical: search without answering; refinement: hide a question */
+  onSkip?: (ambiguity?: FilterAmbiguity) => void;
+}
+
+/**
+ * Clarifying Questions
+ *
+ * Quick-pick chips for questions filter extraction couldn't answer from
+ * the query alone. One tap merges the answer into the search filters.
+ */
+export function ClarifyingQuestions({ ambiguities, variant, onAnswer, onSkip }: ClarifyingQuestionsProps) {
+  if (ambiguities.length === 0) return null;
+
+  const critical = variant === 'critical';
+
+  return (
+    <Card className={critical ? "border-blue-200 dark:border-blue-900" : "border-gray-200 dark:border-gray-800"}>
+      <CardContent className="p-4 space-y-4">
+        {critical && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            A quick answer will make these results much more accurate:
+          </p>
+        )}
+
+        {ambiguities.map(ambiguity => (
+          <div key={ambiguity.field} className="space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-gray-100">
+                {critical ? (
+                  <HelpCircle className="h-4 w-4 text-blue-600 shrink-0" />
+                ) : (
+                  <Sparkles className="h-4 w-4 text-gray-500 shrink-0" />
+                )}
+                {ambiguity.question}
+              </div>
+              {!critical && onSkip && (
+                <button
+                  type="button"
+                  onClick={() => onSkip(ambiguity)}
+                  className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  aria-label="Hide question"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2" role="group" aria-label={ambiguity.question}>
+              {ambiguity.options.map(option => (
+                <Button
+                  key={String(option.value)}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className={critical ? "min-h-[44px] rounded-full" : "rounded-full"}
+                  onClick={() => onAnswer(ambiguity, option.value)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {critical && onSkip && (
+          <Button
+            type="button"
+            variant="link"
+            size="sm"
+            className="px-0"
+            onClick={() => onSkip()}
+          >
+            Search without answering
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
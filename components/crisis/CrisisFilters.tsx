@@ -1,7 +1,9 @@
 "use client";
 
 import { useState } from "react";
-import { CanonicalSearchFilters } from "@/types/search";
+import { CanonicalSearchFilters, FilterUtils } from "@/types/search";
+import { AGE_GROUPS, INSURANCE_TYPES, LANGUAGE_NAME_TO_CODE } from "@/lib/api/filter-schema";
+import { describeFilter } from "@/lib/filter-labels";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import {
@@ -14,7 +16,15 @@ import {
 import { Slider } from "@/components/ui/slider";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { SlidersHorizontal, X } from "lucide-react";
+import { MultiSelect, MultiSelectOption } from "@/components/ui/multi-select";
+import { ArrayInput } from "@/components/ui/array-input";
+import { BadgeGroup } from "@/components/ui/badge-group";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { ChevronDown, SlidersHorizontal, X } from "lucide-react";
 import {
   Sheet,
   SheetContent,
@@ -24,6 +34,119 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet";
 
+type FilterKey = keyof CanonicalSearchFilters;
+
+type FlagKey = {
+  [K in FilterKey]-?: NonNullable<CanonicalSearchFilters[K]> extends boolean ? K : never;
+}[FilterKey];
+
+const INSURANCE_LABELS: Record<(typeof INSURANCE_TYPES)[number], string> = {
+  medicaid: 'Medicaid',
+  medicare: 'Medicare',
+  private: 'Private insurance',
+  uninsured: 'No insurance needed',
+  sliding_scale: 'Sliding scale',
+};
+
+const INSURANCE_OPTIONS: MultiSelectOption[] = INSURANCE_TYPES.map(value => ({ value, label: INSURANCE_LABELS[value] }));
+
+const AGE_GROUP_LABELS: Record<(typeof AGE_GROUPS)[number], string> = {
+  child: 'Children',
+  teen: 'Teens',
+  adult: 'Adults',
+  senior: 'Seniors',
+};
+
+const AGE_GROUP_OPTIONS: MultiSelectOption[] = AGE_GROUPS.map(value => ({ value, label: AGE_GROUP_LABELS[value] }));
+
+/**
+ * One option per language code, named after its first entry ("zh" → Chinese)
+ */
+const LANGUAGE_OPTIONS: MultiSelectOption[] = Object.entries(LANGUAGE_NAME_TO_CODE)
+  .filter(([, code], index, entries) => entries.findIndex(([, other]) => other === code) === index)
+  .map(([name, code]) => ({ value: code, label: name.charAt(0).toUpperCase() + name.slice(1) }))
+  .sort((a, b) => a.label.localeCompare(b.label));
+
+const FLAG_GROUPS: Array<{ title: string; flags: Array<{ key: FlagKey; label: string }> }> = [
+  {
+    title: 'Cost',
+    flags: [
+      { key: 'has_sliding_scale', label: 'Sliding scale fees' },
+      { key: 'has_charity_care', label: 'Charity care' },
+    ],
+  },
+  {
+    title: 'Getting There',
+    flags: [
+      { key: 'has_transit', label: 'Near public transit' },
+      { key: 'has_parking', label: 'Parking available' },
+      { key: 'has_ride_programs', label: 'Ride programs' },
+    ],
+  },
+  {
+    title: 'Populations Served',
+    flags: [
+      { key: 'lgbtq_affirming', label: 'LGBTQ+ affirming' },
+      { key: 'serves_undocumented', label: 'Serves undocumented' },
+      { key: 'serves_justice_involved', label: 'Serves justice-involved' },
+    ],
+  },
+  {
+    title: 'Accessibility',
+    flags: [
+      { key: 'wheelchair_accessible', label: 'Wheelchair accessible' },
+      { key: 'asl_interpretation', label: 'ASL interpretation' },
+      { key: 'telehealth_available', label: 'Telehealth available' },
+    ],
+  },
+];
+
+const VERIFIED_WITHIN_OPTIONS = [
+  { value: 30, label: 'Last 30 days' },
+  { value: 90, label: 'Last 90 days' },
+  { value: 180, label: 'Last 6 months' },
+  { value: 365, label: 'Last year' },
+];
+
+const WAITLIST_OPTIONS = [
+  { value: 0, label: 'No waitlist' },
+  { value: 7, label: 'Up to 1 week' },
+  { value: 14, label: 'Up to 2 weeks' },
+  { value: 30, label: 'Up to 30 days' },
+];
+
+/**
+ * Fields under "Advanced" (used for its badge and summary)
+ */
+const ADVANCED_FIELDS: FilterKey[] = [
+  'languages',
+  'age_groups',
+  ...FLAG_GROUPS.flatMap(group => group.flags.map(flag => flag.key)),
+  'min_rcs',
+  'verified_within_days',
+  'max_waitlist_days',
+  'evidence_based_practices',
+];
+
+/**
+ * Every field this panel sets, cleared by Reset
+ */
+const PANEL_FIELDS: FilterKey[] = [
+  'care_phase',
+  'has_crisis_services',
+  'urgentAccessOnly',
+  'max_distance_miles',
+  'insurance',
+  'gender_specific',
+  'walk_ins_accepted',
+  'referral_required',
+  ...ADVANCED_FIELDS,
+];
+
+function isSet(value: unknown): boolean {
+  return value !== undefined && !(Array.isArray(value) && value.length === 0);
+}
+
 interface CrisisFiltersProps {
   filters: CanonicalSearchFilters;
   onChange: (filters: CanonicalSearchFilters) => void;
@@ -39,6 +162,8 @@ interface CrisisFiltersProps {
  * - Distance / travel time
  * - Eligibility (insurance, gender-specific) [bead q7cl]
  * - Access method (walk-in, referral, etc.) [bead o09d]
+ * - Advanced: languages, age groups, cost, transit, populations served,
+ *   accessibility, data quality, waitlist and evidence-based practices
  *
  * Mobile optimizations:
  * - Collapsible drawer on mobile
@@ -48,28 +173,33 @@ interface CrisisFiltersProps {
  */
 export function CrisisFilters({ filters, onChange }: CrisisFiltersProps) {
   const [open, setOpen] = useState(false);
+  const activeAdvancedFields = ADVANCED_FIELDS.filter(key => isSet(filters[key]));
+  const [advancedOpen, setAdvancedOpen] = useState(activeAdvancedFields.length > 0);
+
+  const updateFilters = (changes: Partial<CanonicalSearchFilters>) => {
+    onChange({
+      ...filters,
+      ...changes,
+    });
+  };
 
   const updateFilter = <K extends keyof CanonicalSearchFilters>(
     key: K,
     value: CanonicalSearchFilters[K]
   ) => {
-    onChange({
-      ...filters,
-      [key]: value,
-    });
+    updateFilters({ [key]: value });
   };
 
-  // Count active filters
-  const activeFilterCount = [
-    filters.care_phase,
-    filters.has_crisis_services,
-    filters.urgentAccessOnly,
-    filters.insurance && filters.insurance.length > 0,
-    filters.gender_specific,
-    filters.walk_ins_accepted || filters.referral_required,
-  ].filter(Boolean).length;
-
-  const FilterContent = () => (
+  // Empty lists clear the filter rather than filtering on nothing
+  const updateList = (key: 'insurance' | 'languages' | 'age_groups' | 'evidence_based_practices', values: string[]) => {
+    updateFilter(key, values.length > 0 ? values : undefined);
+  };
+
+  const activeFilterCount = FilterUtils.countActive(filters);
+
+  // Rendered inline rather than as a nested component, so popovers and
+  // half-typed inputs survive the re-render after each change
+  const filterContent = (
     <div className="space-y-6">
       {/* Filter: Care Phase [bead bp95] */}
       <div className="space-y-3">
@@ -82,7 +212,7 @@ export function CrisisFilters({ filters, onChange }: CrisisFiltersProps) {
             if (value === 'all') {
               updateFilter('care_phase', undefined);
             } else {
-              updateFilter('care_phase', value as any);
+              updateFilter('care_phase', value as CanonicalSearchFilters['care_phase']);
             }
           }}
         >
@@ -176,31 +306,19 @@ export function CrisisFilters({ filters, onChange }: CrisisFiltersProps) {
 
       {/* Filter: Eligibility (Insurance) */}
       <div className="space-y-3">
-        <Label htmlFor="insurance" className="text-sm font-semibold text-gray-900 dark:text-white block">
+        <Label className="text-sm font-semibold text-gray-900 dark:text-white block">
           Insurance Accepted
         </Label>
-        <Select
-          value={filters.insurance?.[0] || 'all'}
-          onValueChange={(value) => {
-            if (value === 'all') {
-              updateFilter('insurance', undefined);
-            } else {
-              updateFilter('insurance', [value as any]);
-            }
-          }}
-        >
-          <SelectTrigger id="insurance" className="min-h-[44px]">
-            <SelectValue placeholder="Any insurance" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">Any insurance</SelectItem>
-            <SelectItem value="medicaid">Medicaid</SelectItem>
-            <SelectItem value="medicare">Medicare</SelectItem>
-            <SelectItem value="private">Private insurance</SelectItem>
-            <SelectItem value="uninsured">No insurance needed</SelectItem>
-            <SelectItem value="sliding_scale">Sliding scale</SelectItem>
-          </SelectContent>
-        </Select>
+        <MultiSelect
+          options={INSURANCE_OPTIONS}
+          selected={filters.insurance ?? []}
+          onChange={(values) => updateList('insurance', values)}
+          placeholder="Any insurance"
+          className="min-h-[44px]"
+        />
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          Show resources accepting any of the selected
+        </p>
       </div>
 
       <div className="h-px bg-gray-200 dark:bg-gray-700" />
@@ -216,7 +334,7 @@ export function CrisisFilters({ filters, onChange }: CrisisFiltersProps) {
             if (value === 'all') {
               updateFilter('gender_specific', undefined);
             } else {
-              updateFilter('gender_specific', value as any);
+              updateFilter('gender_specific', value as CanonicalSearchFilters['gender_specific']);
             }
           }}
         >
@@ -250,16 +368,10 @@ export function CrisisFilters({ filters, onChange }: CrisisFiltersProps) {
               : 'all'
           }
           onValueChange={(value) => {
-            if (value === 'all') {
-              updateFilter('walk_ins_accepted', undefined);
-              updateFilter('referral_required', undefined);
-            } else if (value === 'walk-in') {
-              updateFilter('walk_ins_accepted', true);
-              updateFilter('referral_required', undefined);
-            } else if (value === 'referral') {
-              updateFilter('walk_ins_accepted', undefined);
-              updateFilter('referral_required', true);
-            }
+            updateFilters({
+              walk_ins_accepted: value === 'walk-in' || undefined,
+              referral_required: value === 'referral' || undefined,
+            });
           }}
         >
           <SelectTrigger id="access" className="min-h-[44px]">
@@ -272,6 +384,149 @@ export function CrisisFilters({ filters, onChange }: CrisisFiltersProps) {
           </SelectContent>
         </Select>
       </div>
+
+      <div className="h-px bg-gray-200 dark:bg-gray-700" />
+
+      {/* Advanced: the rest of the filter schema, grouped */}
+      <Collapsible open={advancedOpen} onOpenChange={setAdvancedOpen}>
+        <CollapsibleTrigger className="w-full flex items-center justify-between min-h-[44px] text-sm font-semibold text-gray-900 dark:text-white">
+          <span className="flex items-center gap-2">
+            Advanced
+            {activeAdvancedFields.length > 0 && (
+              <span className="px-2 py-0.5 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 text-xs font-semibold rounded-full">
+                {activeAdvancedFields.length}
+              </span>
+            )}
+          </span>
+          <ChevronDown className={`h-4 w-4 transition-transform ${advancedOpen ? 'rotate-180' : ''}`} />
+        </CollapsibleTrigger>
+
+        {!advancedOpen && (
+          <BadgeGroup
+            title="Applied"
+            items={activeAdvancedFields.map(key => describeFilter(key, filters[key]))}
+            maxDisplay={4}
+            className="mt-2"
+          />
+        )}
+
+        <CollapsibleContent className="space-y-6 pt-4">
+          {/* Language and age */}
+          <div className="space-y-3">
+            <Label className="text-sm font-semibold text-gray-900 dark:text-white block">
+              Languages Spoken
+            </Label>
+            <MultiSelect
+              options={LANGUAGE_OPTIONS}
+              selected={filters.languages ?? []}
+              onChange={(values) => updateList('languages', values)}
+              placeholder="Any language"
+              className="min-h-[44px]"
+            />
+            <Label className="text-sm font-semibold text-gray-900 dark:text-white block pt-2">
+              Age Groups Served
+            </Label>
+            <MultiSelect
+              options={AGE_GROUP_OPTIONS}
+              selected={filters.age_groups ?? []}
+              onChange={(values) => updateList('age_groups', values)}
+              placeholder="All ages"
+              className="min-h-[44px]"
+            />
+          </div>
+
+          {/* Yes/no requirements */}
+          {FLAG_GROUPS.map(group => (
+            <div key={group.title} className="space-y-1">
+              <h4 className="text-sm font-semibold text-gray-900 dark:text-white">
+                {group.title}
+              </h4>
+              {group.flags.map(flag => (
+                <div key={flag.key} className="flex items-center justify-between min-h-[44px]">
+                  <Label htmlFor={`flag-${flag.key}`} className="text-sm text-gray-700 dark:text-gray-300">
+                    {flag.label}
+                  </Label>
+                  <Switch
+                    id={`flag-${flag.key}`}
+                    checked={filters[flag.key] ?? false}
+                    onCheckedChange={(checked) => updateFilter(flag.key, checked || undefined)}
+                    className="data-[state=checked]:bg-blue-700"
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {/* Data quality and availability */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white">
+              Data Quality &amp; Availability
+            </h4>
+            <Label htmlFor="min-rcs" className="text-sm text-gray-700 dark:text-gray-300 block">
+              Minimum confidence
+            </Label>
+            <div className="flex items-center gap-3">
+              <Slider
+                id="min-rcs"
+                min={0}
+                max={1}
+                step={0.1}
+                value={[filters.min_rcs ?? 0]}
+                onValueChange={([value]) => updateFilter('min_rcs', value > 0 ? value : undefined)}
+                className="flex-1"
+                aria-label={`Minimum confidence: ${Math.round((filters.min_rcs ?? 0) * 100)}%`}
+              />
+              <span className="min-w-[60px] text-right text-sm font-semibold text-blue-700 dark:text-blue-400">
+                {filters.min_rcs ? `${Math.round(filters.min_rcs * 100)}%` : 'Any'}
+              </span>
+            </div>
+
+            <Label htmlFor="verified-within" className="text-sm text-gray-700 dark:text-gray-300 block">
+              Verified within
+            </Label>
+            <Select
+              value={filters.verified_within_days !== undefined ? String(filters.verified_within_days) : 'any'}
+              onValueChange={(value) => updateFilter('verified_within_days', value === 'any' ? undefined : Number(value))}
+            >
+              <SelectTrigger id="verified-within" className="min-h-[44px]">
+                <SelectValue placeholder="Any time" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any time</SelectItem>
+                {VERIFIED_WITHIN_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Label htmlFor="max-waitlist" className="text-sm text-gray-700 dark:text-gray-300 block">
+              Maximum waitlist
+            </Label>
+            <Select
+              value={filters.max_waitlist_days !== undefined ? String(filters.max_waitlist_days) : 'any'}
+              onValueChange={(value) => updateFilter('max_waitlist_days', value === 'any' ? undefined : Number(value))}
+            >
+              <SelectTrigger id="max-waitlist" className="min-h-[44px]">
+                <SelectValue placeholder="Any wait" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any wait</SelectItem>
+                {WAITLIST_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Evidence-based practices (free text, e.g. DBT, CBT, EMDR) */}
+          <ArrayInput
+            label="Evidence-Based Practices"
+            value={filters.evidence_based_practices ?? []}
+            onChange={(values) => updateList('evidence_based_practices', values)}
+            placeholder="e.g. DBT, EMDR"
+          />
+        </CollapsibleContent>
+      </Collapsible>
     </div>
   );
 
@@ -290,7 +545,7 @@ export function CrisisFilters({ filters, onChange }: CrisisFiltersProps) {
             </span>
           )}
         </div>
-        <FilterContent />
+        {filterContent}
       </Card>
 
       {/* Mobile Filter Button + Sheet */}
@@ -321,7 +576,7 @@ export function CrisisFilters({ filters, onChange }: CrisisFiltersProps) {
                 Refine your search to find the most relevant resources
               </SheetDescription>
             </SheetHeader>
-            <FilterContent />
+            {filterContent}
             <div className="mt-8 flex gap-3">
               <Button
                 onClick={() => setOpen(false)}
@@ -332,16 +587,11 @@ export function CrisisFilters({ filters, onChange }: CrisisFiltersProps) {
               </Button>
               <Button
                 onClick={() => {
-                  // Reset all filters
-                  onChange({
-                    care_phase: undefined,
-                    has_crisis_services: undefined,
+                  // Reset everything this panel sets (keeps query text and location)
+                  updateFilters({
+                    ...Object.fromEntries(PANEL_FIELDS.map(key => [key, undefined])),
                     urgentAccessOnly: true,
                     max_distance_miles: 30,
-                    insurance: undefined,
-                    gender_specific: undefined,
-                    walk_ins_accepted: undefined,
-                    referral_required: undefined,
                   });
                 }}
                 variant="outline"
@@ -12,39 +12,27 @@ import {
   CheckCircle2,
   AlertCircle,
   ChevronRight,
+  HelpCircle,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useState } from "react";
 import Link from "next/link";
-
-interface Resource {
-  id: string;
-  name: string;
-  display_name?: string;
-  description?: string;
-  city?: string;
-  state?: string;
-  phone_numbers?: string[];
-  website?: string;
-  distance_miles?: number;
-  services?: Array<{
-    name: string;
-    service_type?: string;
-  }>;
-  provenance?: {
-    last_verified_at?: string;
-    rcs?: number;
-  };
-  avg_rcs?: number;
-  tier?: 'primary' | 'secondary' | 'suppressed'; // [bead 0fxp]
-}
+import type { CanonicalSearchFilters, ResourceSearchResult } from "@/types/search";
+import { getFilterLabel } from "@/lib/filter-labels";
+import { getResourceRcs, getTrustLevel, formatDistance, daysSince, type TrustLevel } from "@/lib/resource-display";
 
 interface CrisisResourceCardProps {
-  resource: Resource;
+  resource: ResourceSearchResult;
   userLocation?: { lat: number; lng: number };
   index?: number;
 }
 
+const TRUST_STYLES: Record<TrustLevel, { color: string; icon: typeof CheckCircle2 }> = {
+  verified: { color: 'text-green-600', icon: CheckCircle2 },
+  good: { color: 'text-blue-600', icon: CheckCircle2 },
+  low: { color: 'text-yellow-600', icon: AlertCircle },
+};
+
 /**
  * Crisis Resource Card
  *
@@ -52,6 +40,7 @@ interface CrisisResourceCardProps {
  * - Call/Directions/Website/Copy buttons (prominent)
  * - Trust indicators (verification, confidence)
  * - Essential info only (name, location, services)
+ * - Filters the resource couldn't be checked against (no data)
  */
 export function CrisisResourceCard({ resource, userLocation, index }: CrisisResourceCardProps) {
   const [copied, setCopied] = useState(false);
@@ -60,22 +49,15 @@ export function CrisisResourceCard({ resource, userLocation, index }: CrisisReso
   const location = [resource.city, resource.state].filter(Boolean).join(', ');
   const phoneNumber = resource.phone_numbers?.[0];
   const website = resource.website;
-  const rcs = resource.provenance?.rcs || resource.avg_rcs || 0;
+  const rcs = getResourceRcs(resource);
   const lastVerified = resource.provenance?.last_verified_at;
 
   // Calculate days since verification
-  const daysSinceVerification = lastVerified
-    ? Math.floor((Date.now() - new Date(lastVerified).getTime()) / (1000 * 60 * 60 * 24))
-    : null;
+  const daysSinceVerification = daysSince(lastVerified);
 
   // Trust level based on RCS
-  const getTrustLevel = (score: number) => {
-    if (score >= 0.85) return { label: 'Verified', color: 'text-green-600', icon: CheckCircle2 };
-    if (score >= 0.7) return { label: 'Good Confidence', color: 'text-blue-600', icon: CheckCircle2 };
-    return { label: 'Low Confidence', color: 'text-yellow-600', icon: AlertCircle };
-  };
-
-  const trustLevel = getTrustLevel(rcs);
+  const trust = getTrustLevel(rcs);
+  const trustLevel = { ...trust, ...TRUST_STYLES[trust.level] };
   const TrustIcon = trustLevel.icon;
 
   // Tier styling [bead 0fxp]
@@ -96,11 +78,10 @@ export function CrisisResourceCard({ resource, userLocation, index }: CrisisReso
   const tierBadge = getTierBadge(resource.tier);
 
   // Format distance [bead v3n2]
-  const distanceText = resource.distance_miles !== undefined
-    ? resource.distance_miles < 0.1
-      ? `${Math.round(resource.distance_miles * 5280)} ft`
-      : `${resource.distance_miles.toFixed(1)} mi`
-    : null;
+  const distanceText = formatDistance(resource.distance_miles);
+
+  // Requested filters this resource has no data for (kept, but unchecked)
+  const unverifiedFilters = resource.unknowns.map(key => getFilterLabel(key as keyof CanonicalSearchFilters));
 
   // Action handlers
   const handleCall = () => {
@@ -195,6 +176,14 @@ export function CrisisResourceCard({ resource, userLocation, index }: CrisisReso
           </div>
         )}
 
+        {/* Filters that couldn't be verified */}
+        {unverifiedFilters.length > 0 && (
+          <div className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+            <HelpCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+            <span>Couldn't verify: {unverifiedFilters.join(', ')}</span>
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 pt-2">
           <Button
@@ -1,16 +1,46 @@
 "use client";
 
-import { SearchResponse } from "@/types/search";
+import { SearchResponse, SearchWarning, SortField, SortOrder } from "@/types/search";
 import { CrisisResourceCard } from "./CrisisResourceCard";
-import { AlertCircle, Map as MapIcon, List } from "lucide-react";
+import { AlertCircle, Map as MapIcon, List, Loader2, Rows3, ListEnd, ArrowUp, ArrowDown, Info, X, HelpCircle } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
-import { useState } from "react";
+import { PaginationControls } from "@/components/ui/pagination-controls";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useEffect, useRef, useState } from "react";
 import { CrisisMap } from "./CrisisMap";
+import { PAGE_SIZE_OPTIONS, type PaginationMode } from "@/lib/search-pagination";
+import { SORT_OPTIONS, getDefaultSortOrder } from "@/lib/search-sort";
+
+interface CrisisSearchResultsPagination {
+  mode: PaginationMode;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (size: number) => void;
+  onLoadMore: () => void;
+  onModeChange: (mode: PaginationMode) => void;
+}
+
+interface CrisisSearchResultsSort {
+  sortBy: SortField;
+  sortOrder: SortOrder;
+  onSortChange: (sortBy: SortField, sortOrder: SortOrder) => void;
+}
 
 interface CrisisSearchResultsProps {
   results: SearchResponse;
   userLocation?: { lat: number; lng: number };
+  pagination?: CrisisSearchResultsPagination;
+  sort?: CrisisSearchResultsSort;
 }
 
 /**
@@ -20,63 +50,187 @@ interface CrisisSearchResultsProps {
  * - Map on left (desktop) / top (mobile)
  * - Results list on right (desktop) / bottom (mobile)
  * - Toggle between map and list on mobile
+ * - Numbered pages or infinite scroll ("Load more" as a fallback)
+ * - Sort selector (closest, recently verified, ...)
+ * - Dismissible search warnings (unapplied filters, default query, ...)
+ * - "Couldn't verify" notes for results kept without data for a filter
  */
-export function CrisisSearchResults({ results, userLocation }: CrisisSearchResultsProps) {
+export function CrisisSearchResults({ results, userLocation, pagination, sort }: CrisisSearchResultsProps) {
   const { items, total } = results;
+  // Locally filtered totals are extrapolated from the fetched sample
+  const totalEstimated = results.metadata.post_filter?.total_estimated ?? false;
+  const unverifiedCount = items.filter(item => item.unknowns.length > 0).length;
   const [showMap, setShowMap] = useState(true);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const [dismissedWarnings, setDismissedWarnings] = useState<Set<string>>(new Set());
+
+  const warnings = (results.warnings || []).filter(w => !dismissedWarnings.has(warningKey(w)));
+  const dismissWarning = (warning: SearchWarning) => {
+    setDismissedWarnings(prev => new Set(prev).add(warningKey(warning)));
+  };
+
+  const infinite = pagination?.mode === 'infinite';
+  const canLoadMore = infinite && pagination.hasMore && !pagination.isLoadingMore;
+
+  // Infinite scroll: load the next page when the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !canLoadMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          pagination.onLoadMore();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [canLoadMore, pagination]);
 
   if (total === 0) {
     return (
-      <Alert className="border-yellow-200 bg-yellow-50 dark:bg-yellow-950/50">
-        <AlertCircle className="h-4 w-4 text-yellow-600" />
-        <AlertDescription className="text-yellow-900 dark:text-yellow-100">
-          <div className="space-y-2">
-            <p className="font-medium">No resources found</p>
-            <p className="text-sm">
-              Try:
-            </p>
-            <ul className="text-sm list-disc list-inside space-y-1">
-              <li>Adjusting your filters (try turning off "Open now")</li>
-              <li>Using different search terms</li>
-              <li>Selecting a different location</li>
-            </ul>
-          </div>
-        </AlertDescription>
-      </Alert>
+      <div className="space-y-3">
+        <SearchWarningNotices warnings={warnings} onDismiss={dismissWarning} />
+        <Alert className="border-yellow-200 bg-yellow-50 dark:bg-yellow-950/50">
+          <AlertCircle className="h-4 w-4 text-yellow-600" />
+          <AlertDescription className="text-yellow-900 dark:text-yellow-100">
+            <div className="space-y-2">
+              <p className="font-medium">No resources found</p>
+              <p className="text-sm">
+                Try:
+              </p>
+              <ul className="text-sm list-disc list-inside space-y-1">
+                <li>Adjusting your filters (try turning off "Open now")</li>
+                <li>Using different search terms</li>
+                <li>Selecting a different location</li>
+              </ul>
+            </div>
+          </AlertDescription>
+        </Alert>
+      </div>
     );
   }
 
+  // Card numbering continues across numbered pages
+  const indexOffset = pagination && !infinite ? (pagination.page - 1) * pagination.pageSize : 0;
+
   return (
     <div className="space-y-4">
       {/* Results Header */}
-      <div className="flex items-center justify-between">
-        <div className="text-sm text-gray-600 dark:text-gray-400">
-          <span className="font-semibold text-2xl text-gray-900 dark:text-gray-100 mr-2">
-            {total.toLocaleString()}
-          </span>
-          <span>resource{total !== 1 ? 's' : ''} found</span>
+      <div className="flex items-start justify-between gap-2 flex-wrap">
+        <div className="space-y-2">
+          <div className="text-sm text-gray-600 dark:text-gray-400">
+            <span className="font-semibold text-2xl text-gray-900 dark:text-gray-100 mr-2">
+              {totalEstimated && <span title="Estimated">~</span>}
+              {total.toLocaleString()}
+            </span>
+            <span>resource{total !== 1 ? 's' : ''} found</span>
+            {infinite && items.length < total && (
+              <span className="ml-2 text-xs">(showing {items.length})</span>
+            )}
+          </div>
+          {unverifiedCount > 0 && (
+            <p className="flex items-center gap-1.5 text-xs text-amber-700 dark:text-amber-400">
+              <HelpCircle className="h-3.5 w-3.5 shrink-0" />
+              {unverifiedCount} shown couldn't be verified against every filter - see each result
+            </p>
+          )}
+          <SearchWarningNotices warnings={warnings} onDismiss={dismissWarning} />
         </div>
 
-        {/* Mobile Toggle */}
-        <div className="flex lg:hidden gap-2">
-          <Button
-            variant={showMap ? "default" : "outline"}
-            size="sm"
-            onClick={() => setShowMap(true)}
-            className="gap-2"
-          >
-            <MapIcon className="h-4 w-4" />
-            Map
-          </Button>
-          <Button
-            variant={!showMap ? "default" : "outline"}
-            size="sm"
-            onClick={() => setShowMap(false)}
-            className="gap-2"
-          >
-            <List className="h-4 w-4" />
-            List
-          </Button>
+        <div className="flex items-center gap-2">
+          {/* Sort Selector */}
+          {sort && (
+            <div className="flex gap-1">
+              <Select
+                value={sort.sortBy}
+                onValueChange={(value) => {
+                  const sortBy = value as SortField;
+                  sort.onSortChange(sortBy, getDefaultSortOrder(sortBy));
+                }}
+              >
+                <SelectTrigger className="h-9 w-[170px]" aria-label="Sort results">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SORT_OPTIONS.map(option => (
+                    <SelectItem
+                      key={option.value}
+                      value={option.value}
+                      disabled={option.requiresLocation && !userLocation}
+                    >
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {sort.sortBy !== 'relevance' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => sort.onSortChange(sort.sortBy, sort.sortOrder === 'asc' ? 'desc' : 'asc')}
+                  aria-label={sort.sortOrder === 'asc' ? 'Sorted ascending' : 'Sorted descending'}
+                >
+                  {sort.sortOrder === 'asc' ? (
+                    <ArrowUp className="h-4 w-4" />
+                  ) : (
+                    <ArrowDown className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {/* Pagination Mode Toggle */}
+          {pagination && (
+            <div className="flex gap-1" role="group" aria-label="Result paging">
+              <Button
+                variant={infinite ? "default" : "outline"}
+                size="sm"
+                onClick={() => pagination.onModeChange('infinite')}
+                className="gap-2"
+                aria-pressed={infinite}
+              >
+                <ListEnd className="h-4 w-4" />
+                <span className="hidden sm:inline">Scroll</span>
+              </Button>
+              <Button
+                variant={!infinite ? "default" : "outline"}
+                size="sm"
+                onClick={() => pagination.onModeChange('pages')}
+                className="gap-2"
+                aria-pressed={!infinite}
+              >
+                <Rows3 className="h-4 w-4" />
+                <span className="hidden sm:inline">Pages</span>
+              </Button>
+            </div>
+          )}
+
+          {/* Mobile Toggle */}
+          <div className="flex lg:hidden gap-2">
+            <Button
+              variant={showMap ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowMap(true)}
+              className="gap-2"
+            >
+              <MapIcon className="h-4 w-4" />
+              Map
+            </Button>
+            <Button
+              variant={!showMap ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowMap(false)}
+              className="gap-2"
+            >
+              <List className="h-4 w-4" />
+              List
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -99,11 +253,85 @@ export function CrisisSearchResults({ results, userLocation }: CrisisSearchResul
               key={item.id}
               resource={item}
               userLocation={userLocation}
-              index={index}
+              index={indexOffset + index}
             />
           ))}
+
+          {/* Infinite scroll sentinel + Load more fallback */}
+          {infinite && pagination.hasMore && (
+            <div ref={sentinelRef} className="flex justify-center py-4">
+              <Button
+                variant="outline"
+                onClick={pagination.onLoadMore}
+                disabled={pagination.isLoadingMore}
+                className="gap-2 min-h-[44px]"
+              >
+                {pagination.isLoadingMore ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Loading more...
+                  </>
+                ) : (
+                  'Load more'
+                )}
+              </Button>
+            </div>
+          )}
+
+          {/* Numbered pages */}
+          {pagination && !infinite && (
+            <PaginationControls
+              currentPage={pagination.page}
+              totalPages={Math.max(1, Math.ceil(total / pagination.pageSize))}
+              pageSize={pagination.pageSize}
+              totalItems={total}
+              onPageChange={pagination.onPageChange}
+              onPageSizeChange={pagination.onPageSizeChange}
+              pageSizeOptions={PAGE_SIZE_OPTIONS}
+            />
+          )}
         </div>
       </div>
     </div>
   );
 }
+
+function warningKey(warning: SearchWarning): string {
+  return `${warning.code}:${warning.filter ?? ''}`;
+}
+
+/**
+ * Compact notices for anything that makes results differ from the request
+ */
+function SearchWarningNotices({
+  warnings,
+  onDismiss,
+}: {
+  warnings: SearchWarning[];
+  onDismiss: (warning: SearchWarning) => void;
+}) {
+  if (warnings.length === 0) return null;
+
+  return (
+    <ul className="space-y-1" aria-label="Search notices">
+      {warnings.map(warning => (
+        <li
+          key={warningKey(warning)}
+          className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 px-2 py-1 text-xs text-amber-900 dark:border-amber-900 dark:bg-amber-950/50 dark:text-amber-100"
+          data-code={warning.code}
+        >
+          <Info className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+          <span className="flex-1">{warning.message}</span>
+          <button
+            type="button"
+            onClick={() => onDismiss(warning)}
+            className="shrink-0 rounded hover:bg-amber-100 dark:hover:bg-amber-900"
+            aria-label="Dismiss notice"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import type { CanonicalSearchFilters, ConversationTurn } from "@/types/search";
+import { Check, CornerDownRight, Pencil, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { describeFilter, getFilterLabel, isChipField } from "@/lib/filter-labels";
+
+interface RefinementChainProps {
+  turns: ConversationTurn[];
+  disabled?: boolean;
+  /** Add a follow-up query ("now only ones that take Medicaid") */
+  onRefine: (query: string) => void;
+  /** Re-run one turn with new wording */
+  onEdit: (index: number, query: string) => void;
+  /** Drop one turn; the later refinements still apply */
+  onRemove: (index: number) => void;
+}
+
+/**
+ * Refinement Chain
+ *
+ * The queries of a search conversation in order, each with the filters it
+ * changed. Any step can be reworded or removed; the steps after it still apply.
+ */
+export function RefinementChain({ turns, disabled, onRefine, onEdit, onRemove }: RefinementChainProps) {
+  const [followUp, setFollowUp] = useState("");
+  const [editing, setEditing] = useState<{ index: number; query: string } | null>(null);
+
+  if (turns.length === 0) return null;
+
+  const submitFollowUp = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!followUp.trim()) return;
+    onRefine(followUp.trim());
+    setFollowUp("");
+  };
+
+  const submitEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing?.query.trim()) return;
+    onEdit(editing.index, editing.query.trim());
+    setEditing(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <ol className="space-y-1.5" aria-label="Search refinements">
+        {turns.map((turn, index) => {
+          const changes = [
+            ...Object.entries(turn.delta.set)
+              .filter(([key]) => isChipField(key as keyof CanonicalSearchFilters))
+              .map(([key, value]) => describeFilter(key as keyof CanonicalSearchFilters, value)),
+            ...turn.delta.remove.map(key => `No ${getFilterLabel(key).toLowerCase()} filter`),
+          ];
+
+          return (
+            <li key={index} className="flex items-start gap-2 text-sm">
+              {index > 0 && <CornerDownRight className="h-4 w-4 mt-1 text-gray-400 shrink-0" />}
+
+              {editing?.index === index ? (
+                <form onSubmit={submitEdit} className="flex flex-1 gap-2">
+                  <Input
+                    value={editing.query}
+                    onChange={(e) => setEditing({ index, query: e.target.value })}
+                    className="h-8"
+                    aria-label={`Edit step ${index + 1}`}
+                    autoFocus
+                  />
+                  <Button type="submit" size="sm" variant="ghost" aria-label="Save" disabled={disabled}>
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" aria-label="Cancel" onClick={() => setEditing(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </form>
+              ) : (
+                <div className="flex flex-1 flex-wrap items-center gap-1.5">
+                  <span className="text-gray-900 dark:text-gray-100">"{turn.query}"</span>
+                  {changes.map(change => (
+                    <Badge key={change} variant="secondary" className="font-normal">
+                      {change}
+                    </Badge>
+                  ))}
+                  <div className="ml-auto flex gap-1">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0"
+                      aria-label={`Edit step ${index + 1}`}
+                      disabled={disabled}
+                      onClick={() => setEditing({ index, query: turn.query })}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    {turns.length > 1 && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        aria-label={`Remove step ${index + 1}`}
+                        disabled={disabled}
+                        onClick={() => onRemove(index)}
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <form onSubmit={submitFollowUp} className="flex gap-2">
+        <Input
+          value={followUp}
+          onChange={(e) => setFollowUp(e.target.value)}
+          placeholder='Refine these results, e.g. "now only ones that take Medicaid"'
+          className="h-9"
+          disabled={disabled}
+        />
+        <Button type="submit" size="sm" variant="outline" disabled={disabled || !followUp.trim()}>
+          Refine
+        </Button>
+      </form>
+    </div>
+  );
+}
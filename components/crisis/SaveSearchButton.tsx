@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import type { CanonicalSearchFilters } from "@/types/search";
+import { BookmarkCheck, BookmarkPlus, Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface SaveSearchButtonProps {
+  query: string;
+  filters: CanonicalSearchFilters;
+  disabled?: boolean;
+}
+
+/**
+ * Save Search Button
+ *
+ * Names the current query and filters and saves them for the signed-in
+ * worker; saved searches are launched from the landing page.
+ */
+export function SaveSearchButton({ query, filters, disabled }: SaveSearchButtonProps) {
+  const [name, setName] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name?.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/saved-searches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, query, filters }),
+      });
+      if (!response.ok) {
+        throw new Error((await response.json().catch(() => null))?.error ?? "Could not save this search");
+      }
+      setName(null);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save this search");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (name === null) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => {
+          setSaved(false);
+          setName(query.slice(0, 80));
+        }}
+        disabled={disabled}
+        className="gap-2 shrink-0"
+      >
+        {saved ? <BookmarkCheck className="h-4 w-4 text-green-600" /> : <BookmarkPlus className="h-4 w-4" />}
+        <span className="hidden sm:inline">{saved ? "Saved" : "Save search"}</span>
+      </Button>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="flex items-center gap-1">
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => e.key === "Escape" && setName(null)}
+        placeholder="Name this search"
+        className="h-8 w-48"
+        maxLength={80}
+        aria-label="Saved search name"
+        aria-invalid={error ? true : undefined}
+        title={error ?? undefined}
+        autoFocus
+      />
+      <Button type="submit" size="sm" variant="ghost" className="h-8 w-8 p-0" aria-label="Save" disabled={saving || !name.trim()}>
+        <Check className="h-4 w-4" />
+      </Button>
+      <Button type="button" size="sm" variant="ghost" className="h-8 w-8 p-0" aria-label="Cancel" onClick={() => setName(null)}>
+        <X className="h-4 w-4" />
+      </Button>
+      {error && <span className="text-xs text-red-600 dark:text-red-400" role="alert">{error}</span>}
+    </form>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SavedSearch } from "@/types/search";
+import { Bookmark, Check, Pencil, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { encodeFilters } from "@/lib/filter-url";
+
+interface SavedSearchesProps {
+  /** Launching needs a location, like a typed search */
+  disabled?: boolean;
+}
+
+/**
+ * Search page URL for a saved search: its filters run as-is, no extraction
+ */
+function savedSearchHref(search: SavedSearch): string {
+  const params = encodeFilters(search.filters);
+  if (search.query) params.set("q", search.query);
+  return `/crisis/search?${params.toString()}`;
+}
+
+/**
+ * Saved Searches
+ *
+ * The worker's saved searches as one-click launchers, each renamable and
+ * removable in place. Searches are saved from the results page.
+ */
+export function SavedSearches({ disabled }: SavedSearchesProps) {
+  const [searches, setSearches] = useState<SavedSearch[] | null>(null);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/saved-searches")
+      .then(response => {
+        if (!response.ok) throw new Error("Could not load saved searches");
+        return response.json();
+      })
+      .then((data: { searches: SavedSearch[] }) => setSearches(data.searches))
+      .catch(err => {
+        setSearches([]);
+        setError(err instanceof Error ? err.message : "Could not load saved searches");
+      });
+  }, []);
+
+  const submitRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing?.name.trim()) return;
+
+    const response = await fetch(`/api/saved-searches/${encodeURIComponent(editing.id)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: editing.name }),
+    });
+    if (!response.ok) {
+      setError((await response.json().catch(() => null))?.error ?? "Could not rename that search");
+      return;
+    }
+
+    const renamed: SavedSearch = await response.json();
+    setSearches(prev => prev && [renamed, ...prev.filter(search => search.id !== renamed.id)]);
+    setEditing(null);
+    setError(null);
+  };
+
+  const remove = async (search: SavedSearch) => {
+    if (!window.confirm(`Delete "${search.name}"?`)) return;
+
+    const response = await fetch(`/api/saved-searches/${encodeURIComponent(search.id)}`, { method: "DELETE" });
+    if (!response.ok) {
+      setError("Could not delete that search");
+      return;
+    }
+    setSearches(prev => prev && prev.filter(s => s.id !== search.id));
+    setError(null);
+  };
+
+  if (searches === null) return null;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wide">
+        Saved Searches:
+      </p>
+
+      {searches.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Save a search from the results page to run it again from here in one click.
+        </p>
+      ) : (
+        <ul className="flex flex-wrap gap-2" aria-label="Saved searches">
+          {searches.map(search => (
+            <li key={search.id}>
+              {editing?.id === search.id ? (
+                <form onSubmit={submitRename} className="flex items-center gap-1">
+                  <Input
+                    value={editing.name}
+                    onChange={(e) => setEditing({ id: search.id, name: e.target.value })}
+                    onKeyDown={(e) => e.key === "Escape" && setEditing(null)}
+                    className="h-9 w-56"
+                    maxLength={80}
+                    aria-label={`Rename ${search.name}`}
+                    autoFocus
+                  />
+                  <Button type="submit" size="sm" variant="ghost" className="h-9 w-9 p-0" aria-label="Save">
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" className="h-9 w-9 p-0" aria-label="Cancel" onClick={() => setEditing(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </form>
+              ) : (
+                <div className="flex items-center bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-full hover:border-blue-700 transition-colors duration-200">
+                  <button
+                    type="button"
+                    onClick={() => { window.location.href = savedSearchHref(search); }}
+                    disabled={disabled}
+                    title={search.query || undefined}
+                    className="flex items-center gap-2 pl-4 pr-2 py-2 text-sm text-gray-700 dark:text-gray-300 disabled:opacity-50"
+                  >
+                    <Bookmark className="h-3.5 w-3.5 text-blue-700" />
+                    {search.name}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditing({ id: search.id, name: search.name })}
+                    className="p-2 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                    aria-label={`Rename ${search.name}`}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => remove(search)}
+                    className="p-2 pr-3 text-gray-400 hover:text-red-600"
+                    aria-label={`Delete ${search.name}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+/**
+ * Filter Extraction Eval Runner
+ *
+ * Scores every extractor against dataset.json and writes report.json.
+ * Runs fully offline: LLM providers are replayed from recordings/<provider>.json.
+ *
+ * Providers without recordings are reported as no_recordings. The `stub`
+ * extractor always runs: it replays stub-completions.json, hand-written
+ * model-shaped output for every case, through the same parse path, so the
+ * JSON repair, validation and rule merge are scored even without
+ * recordings. Its scores say nothing about a real model - record one for that.
+ *
+ *   npm run eval:extraction                     # score all extractors, write report.json
+ *   npm run eval:extraction -- --record openai  # re-record a provider (needs API key + network)
+ *
+ * report.json has no timestamps and stable ordering, so a prompt, model or
+ * rule-extractor change shows up as a plain diff. To gate a change, run
+ * the eval and fail if `git diff --exit-code eval/extraction/report.json`
+ * shows regressions.
+ *
+ * Recordings store a hash of the system prompt. When buildSystemPrompt
+ * changes, the provider is reported as stale until it is re-recorded.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import path from 'node:path';
+import type { LLMFilterExtractionResponse } from '@/types/search';
+import { buildSystemPrompt, extractWithProvider, parseProviderCompletion } from '@/lib/api/llm-fallback';
+import { ALL_LLM_PROVIDERS, type LLMProvider, type ProviderCompletion } from '@/lib/api/llm-providers';
+import { validateExtractedFilters } from '@/lib/api/extraction-validator';
+import { createBasicFilters, extractRuleFilters } from '@/lib/api/keyword-extractor';
+import { mergeWithRules } from '@/lib/api/hybrid-extraction';
+import { redactPII } from '@/lib/api/pii-redaction';
+import { scoreExtractor, type CaseResult, type ExtractorScore, type GoldenDataset } from './scoring';
+
+const EVAL_DIR = path.join(process.cwd(), 'eval', 'extraction');
+const DATASET_PATH = path.join(EVAL_DIR, 'dataset.json');
+const RECORDINGS_DIR = path.join(EVAL_DIR, 'recordings');
+const REPORT_PATH = path.join(EVAL_DIR, 'report.json');
+const STUB_PATH = path.join(EVAL_DIR, 'stub-completions.json');
+
+/**
+ * Same context the search page sends
+ */
+const EVAL_CONTEXT = { user_type: 'crisis_worker' };
+
+interface Recording {
+  provider: string;
+  model: string;
+  prompt_hash: string;
+  responses: Record<string, ProviderCompletion>;
+}
+
+interface StubCompletions {
+  model: string;
+  responses: Record<string, ProviderCompletion>;
+}
+
+type ExtractorStatus = 'ok' | 'stub' | 'stale_recordings' | 'no_recordings';
+
+interface ExtractorReport extends ExtractorScore {
+  status: ExtractorStatus;
+  model: string;
+}
+
+interface Extractor {
+  name: string;
+  model: string;
+  status: ExtractorStatus;
+  extract: (caseId: string, query: string) => Promise<LLMFilterExtractionResponse>;
+}
+
+function promptHash(): string {
+  return createHash('sha256').update(buildSystemPrompt()).digest('hex').slice(0, 12);
+}
+
+function recordingPath(provider: string): string {
+  return path.join(RECORDINGS_DIR, `${provider}.json`);
+}
+
+function loadRecording(provider: string): Recording | null {
+  const file = recordingPath(provider);
+  return existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : null;
+}
+
+function keywordExtractor(): Extractor {
+  return {
+    name: 'keyword',
+    model: 'rule-based',
+    status: 'ok',
+    extract: async (_caseId, query) => createBasicFilters(query),
+  };
+}
+
+/**
+ * Replays a provider's recorded output through the production parse path
+ */
+function replayExtractor(provider: LLMProvider): Extractor {
+  const recording = loadRecording(provider.name);
+  const status: ExtractorStatus = !recording
+    ? 'no_recordings'
+    : recording.prompt_hash !== promptHash() ? 'stale_recordings' : 'ok';
+
+  return {
+    name: provider.name,
+    model: recording?.model ?? provider.model,
+    status,
+    extract: (caseId, query) =>
+      extractWithProvider(provider, query, EVAL_CONTEXT, async () => {
+        const completion = recording?.responses[caseId];
+        if (!completion) throw new Error('no recording');
+        return completion;
+      }),
+  };
+}
+
+/**
+ * Replays the hand-written stub completions through the production parse path
+ */
+function stubExtractor(): Extractor {
+  const stub: StubCompletions = JSON.parse(readFileSync(STUB_PATH, 'utf8'));
+  const provider = { name: 'stub', model: stub.model };
+
+  return {
+    ...provider,
+    status: 'stub',
+    extract: async (caseId, query) => {
+      const completion = stub.responses[caseId];
+      if (!completion) throw new Error('no stub completion');
+      return parseProviderCompletion(provider, query, completion);
+    },
+  };
+}
+
+/**
+ * An LLM extractor merged with the rule pre-pass, as the extract route does
+ */
+function hybridExtractor(llm: Extractor): Extractor {
+  return {
+    ...llm,
+    name: `hybrid:${llm.name}`,
+    extract: async (caseId, query) =>
+      mergeWithRules(validateExtractedFilters(await llm.extract(caseId, query), query), extractRuleFilters(query)),
+  };
+}
+
+async function runExtractor(extractor: Extractor, dataset: GoldenDataset): Promise<ExtractorReport> {
+  const results: CaseResult[] = [];
+
+  for (const golden of dataset.cases) {
+    // Extractors only ever see the redacted query, as in the extract route
+    const query = redactPII(golden.query).text;
+    try {
+      const response = await extractor.extract(golden.id, query);
+      results.push({
+        caseId: golden.id,
+        filters: validateExtractedFilters(response, query).filters,
+      });
+    } catch (error) {
+      results.push({ caseId: golden.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { status: extractor.status, model: extractor.model, ...scoreExtractor(dataset, results) };
+}
+
+/**
+ * Call a live provider for every case and save its raw output
+ */
+async function record(providerName: string, dataset: GoldenDataset) {
+  const provider = ALL_LLM_PROVIDERS.find(p => p.name === providerName);
+  if (!provider) {
+    throw new Error(`Unknown provider "${providerName}" (expected one of: ${ALL_LLM_PROVIDERS.map(p => p.name).join(', ')})`);
+  }
+
+  const responses: Record<string, ProviderCompletion> = {};
+  for (const golden of dataset.cases) {
+    let completion: ProviderCompletion | undefined;
+    await extractWithProvider(provider, redactPII(golden.query).text, EVAL_CONTEXT, async (system, user) => {
+      completion = await provider.complete(system, user);
+      return completion;
+    }).catch(error => {
+      process.stderr.write(`  ${golden.id}: ${error instanceof Error ? error.message : error}\n`);
+    });
+    if (completion) responses[golden.id] = completion;
+    process.stdout.write(`  recorded ${golden.id}\n`);
+  }
+
+  const recording: Recording = {
+    provider: provider.name,
+    model: provider.model,
+    prompt_hash: promptHash(),
+    responses,
+  };
+
+  mkdirSync(RECORDINGS_DIR, { recursive: true });
+  writeFileSync(recordingPath(provider.name), JSON.stringify(recording, null, 2) + '\n');
+  process.stdout.write(`Saved ${Object.keys(responses).length} responses to ${recordingPath(provider.name)}\n`);
+}
+
+function formatScore(score: ExtractorReport['fields'][string]): string {
+  return 'f1' in score
+    ? `P ${score.precision.toFixed(2)}  R ${score.recall.toFixed(2)}  F1 ${score.f1.toFixed(2)}`
+    : `acc ${score.accuracy.toFixed(2)} (${score.correct}/${score.total})`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dataset: GoldenDataset = JSON.parse(readFileSync(DATASET_PATH, 'utf8'));
+
+  const recordIndex = args.indexOf('--record');
+  if (recordIndex !== -1) {
+    await record(args[recordIndex + 1], dataset);
+    return;
+  }
+
+  const llmExtractors = [stubExtractor(), ...ALL_LLM_PROVIDERS.map(replayExtractor)];
+  const extractors = [
+    keywordExtractor(),
+    ...llmExtractors,
+    ...llmExtractors.map(hybridExtractor),
+  ];
+  const report: Record<string, ExtractorReport> = {};
+
+  for (const extractor of extractors) {
+    report[extractor.name] = await runExtractor(extractor, dataset);
+  }
+
+  writeFileSync(
+    REPORT_PATH,
+    JSON.stringify({ dataset_version: dataset.version, cases: dataset.cases.length, extractors: report }, null, 2) + '\n'
+  );
+
+  for (const [name, result] of Object.entries(report)) {
+    process.stdout.write(`\n${name} [${result.model}] - ${result.status}, ${result.cases_scored}/${dataset.cases.length} cases\n`);
+    if (result.cases_scored === 0) continue;
+    for (const [field, score] of Object.entries(result.fields)) {
+      process.stdout.write(`  ${field.padEnd(24)} ${formatScore(score)}\n`);
+    }
+  }
+  process.stdout.write(`\nReport written to ${path.relative(process.cwd(), REPORT_PATH)}\n`);
+}
+
+main().catch(error => {
+  process.stderr.write(`${error instanceof Error ? error.stack : error}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,184 @@
+/**
+ * Extraction Scoring
+ *
+ * Scores extracted filters against the golden dataset, per field:
+ * - set fields (service_types, insurance, ...): micro-averaged precision / recall / F1
+ * - exact fields (care_phase, gender_specific, booleans): accuracy over every case,
+ *   so inventing a value where none was expected counts as a miss
+ * - numeric fields (max_distance_miles): accuracy over cases that specify them,
+ *   so extractor defaults aren't penalized
+ */
+
+import type { CanonicalSearchFilters } from '@/types/search';
+
+export interface GoldenCase {
+  id: string;
+  query: string;
+  expected_care_phase: CanonicalSearchFilters['care_phase'] | null;
+  expected_filters: CanonicalSearchFilters;
+  notes?: string;
+}
+
+export interface GoldenDataset {
+  version: number;
+  description?: string;
+  cases: GoldenCase[];
+}
+
+type FieldMode = 'set' | 'exact' | 'exact_if_expected';
+
+export const SCORED_FIELDS: Array<{ field: keyof CanonicalSearchFilters; mode: FieldMode }> = [
+  { field: 'service_types', mode: 'set' },
+  { field: 'insurance', mode: 'set' },
+  { field: 'languages', mode: 'set' },
+  { field: 'age_groups', mode: 'set' },
+  { field: 'care_phase', mode: 'exact' },
+  { field: 'gender_specific', mode: 'exact' },
+  { field: 'has_crisis_services', mode: 'exact' },
+  { field: 'walk_ins_accepted', mode: 'exact' },
+  { field: 'referral_required', mode: 'exact' },
+  { field: 'urgentAccessOnly', mode: 'exact' },
+  { field: 'lgbtq_affirming', mode: 'exact' },
+  { field: 'wheelchair_accessible', mode: 'exact' },
+  { field: 'telehealth_available', mode: 'exact' },
+  { field: 'serves_justice_involved', mode: 'exact' },
+  { field: 'max_distance_miles', mode: 'exact_if_expected' },
+];
+
+const BOOLEAN_FIELDS = new Set<keyof CanonicalSearchFilters>([
+  'has_crisis_services', 'walk_ins_accepted', 'referral_required', 'urgentAccessOnly',
+  'lgbtq_affirming', 'wheelchair_accessible', 'telehealth_available', 'serves_justice_involved',
+]);
+
+export interface SetFieldScore {
+  precision: number;
+  recall: number;
+  f1: number;
+  tp: number;
+  fp: number;
+  fn: number;
+}
+
+export interface ExactFieldScore {
+  accuracy: number;
+  correct: number;
+  total: number;
+}
+
+export interface CaseFailure {
+  case: string;
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface ExtractorScore {
+  cases_scored: number;
+  /** Cases where the extractor threw or had no recorded output */
+  cases_skipped: Record<string, string>;
+  fields: Record<string, SetFieldScore | ExactFieldScore>;
+  failures: CaseFailure[];
+}
+
+export interface CaseResult {
+  caseId: string;
+  filters?: CanonicalSearchFilters;
+  error?: string;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function toSet(value: unknown): Set<string> {
+  if (value === undefined || value === null) return new Set();
+  return new Set((Array.isArray(value) ? value : [value]).map(v => String(v).toLowerCase()));
+}
+
+/**
+ * Booleans: absent and false are the same (no filter)
+ */
+function normalizeExact(field: keyof CanonicalSearchFilters, value: unknown): unknown {
+  if (BOOLEAN_FIELDS.has(field)) return value === true;
+  return value ?? null;
+}
+
+function expectedValue(golden: GoldenCase, field: keyof CanonicalSearchFilters): unknown {
+  return field === 'care_phase' ? golden.expected_care_phase : golden.expected_filters[field];
+}
+
+/**
+ * Score one extractor's outputs against the dataset
+ */
+export function scoreExtractor(dataset: GoldenDataset, results: CaseResult[]): ExtractorScore {
+  const byCase = new Map(results.map(result => [result.caseId, result]));
+  const setCounts: Record<string, { tp: number; fp: number; fn: number }> = {};
+  const exactCounts: Record<string, { correct: number; total: number }> = {};
+  const failures: CaseFailure[] = [];
+  const skipped: Record<string, string> = {};
+  let scored = 0;
+
+  SCORED_FIELDS.forEach(({ field, mode }) => {
+    if (mode === 'set') setCounts[field] = { tp: 0, fp: 0, fn: 0 };
+    else exactCounts[field] = { correct: 0, total: 0 };
+  });
+
+  dataset.cases.forEach(golden => {
+    const result = byCase.get(golden.id);
+    if (!result?.filters) {
+      skipped[golden.id] = result?.error ?? 'no output';
+      return;
+    }
+    scored++;
+
+    SCORED_FIELDS.forEach(({ field, mode }) => {
+      const expected = expectedValue(golden, field);
+      const actual = result.filters![field];
+
+      if (mode === 'set') {
+        const expectedSet = toSet(expected);
+        const actualSet = toSet(actual);
+        const counts = setCounts[field];
+        actualSet.forEach(v => (expectedSet.has(v) ? counts.tp++ : counts.fp++));
+        expectedSet.forEach(v => { if (!actualSet.has(v)) counts.fn++; });
+
+        const missing = [...expectedSet].filter(v => !actualSet.has(v));
+        const extra = [...actualSet].filter(v => !expectedSet.has(v));
+        if (missing.length || extra.length) {
+          failures.push({ case: golden.id, field, expected: [...expectedSet].sort(), actual: [...actualSet].sort() });
+        }
+        return;
+      }
+
+      if (mode === 'exact_if_expected' && (expected === undefined || expected === null)) return;
+
+      const counts = exactCounts[field];
+      counts.total++;
+      const normalizedExpected = normalizeExact(field, expected);
+      const normalizedActual = normalizeExact(field, actual);
+      if (normalizedExpected === normalizedActual) {
+        counts.correct++;
+      } else {
+        failures.push({ case: golden.id, field, expected: normalizedExpected, actual: normalizedActual });
+      }
+    });
+  });
+
+  const fields: ExtractorScore['fields'] = {};
+  SCORED_FIELDS.forEach(({ field, mode }) => {
+    if (mode === 'set') {
+      const { tp, fp, fn } = setCounts[field];
+      const precision = tp + fp === 0 ? 1 : tp / (tp + fp);
+      const recall = tp + fn === 0 ? 1 : tp / (tp + fn);
+      const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+      fields[field] = { precision: round(precision), recall: round(recall), f1: round(f1), tp, fp, fn };
+    } else {
+      const { correct, total } = exactCounts[field];
+      fields[field] = { accuracy: total === 0 ? 1 : round(correct / total), correct, total };
+    }
+  });
+
+  failures.sort((a, b) => a.case.localeCompare(b.case) || a.field.localeCompare(b.field));
+
+  return { cases_scored: scored, cases_skipped: skipped, fields, failures };
+}
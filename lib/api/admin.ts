@@ -0,0 +1,28 @@
+/**
+ * Admin Access
+ *
+ * Who may see operational data such as LLM spend:
+ *   ADMIN_USER_IDS=user_abc,user_def   Clerk user ids with access to everything
+ * Organization admins (Clerk role org:admin) see their own organization.
+ */
+
+import { auth } from '@clerk/nextjs/server';
+
+const ADMIN_USER_IDS = new Set(
+  (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean)
+);
+
+export type AdminScope =
+  | { kind: 'all' }
+  | { kind: 'organization'; organizationId: string };
+
+/**
+ * The signed-in user's admin scope, or null for non-admins
+ */
+export async function getAdminScope(): Promise<AdminScope | null> {
+  const { userId, orgId, orgRole } = await auth();
+
+  if (userId && ADMIN_USER_IDS.has(userId)) return { kind: 'all' };
+  if (orgId && orgRole === 'org:admin') return { kind: 'organization', organizationId: orgId };
+  return null;
+}
@@ -0,0 +1,97 @@
+/**
+ * Filter Ambiguities
+ *
+ * Questions extraction couldn't answer from the query alone ("help for my
+ * son" - how old? how urgent?). Critical ones are asked before searching;
+ * the rest are offered as refinements once results are shown.
+ */
+
+import type { CanonicalSearchFilters, FilterAmbiguity, LLMFilterExtractionResponse } from '@/types/search';
+
+type FilterKey = keyof CanonicalSearchFilters;
+
+const CARE_PHASE_QUESTION: Omit<FilterAmbiguity, 'is_critical'> = {
+  field: 'care_phase',
+  question: 'How urgent is this?',
+  options: [
+    { label: 'In crisis now', value: 'immediate_crisis' },
+    { label: 'Needs support this week', value: 'acute_support' },
+    { label: 'Rebuilding stability', value: 'recovery_support' },
+    { label: 'Ongoing wellness', value: 'maintenance' },
+  ],
+};
+
+const AGE_GROUP_QUESTION: Omit<FilterAmbiguity, 'is_critical'> = {
+  field: 'age_groups',
+  question: 'How old is the person who needs help?',
+  options: [
+    { label: 'Child (under 13)', value: 'child' },
+    { label: 'Teen (13-17)', value: 'teen' },
+    { label: 'Adult', value: 'adult' },
+    { label: 'Senior (65+)', value: 'senior' },
+  ],
+};
+
+/**
+ * Relatives whose age the query usually leaves open
+ */
+const PERSON_WITHOUT_AGE_PATTERN = /\b(son|daughter|child|kid|grandson|granddaughter|grandchild|brother|sister|nephew|niece|cousin|sibling)s?\b/i;
+
+/**
+ * Filters that narrow results on their own; if none were extracted the
+ * query gives us nothing to search on but free text
+ */
+const NARROWING_FILTERS: FilterKey[] = [
+  'care_phase', 'service_types', 'insurance', 'languages', 'age_groups', 'gender_specific',
+  'has_crisis_services', 'walk_ins_accepted', 'lgbtq_affirming', 'wheelchair_accessible',
+  'telehealth_available',
+];
+
+const ALLOWED_FIELDS = new Set<string>([
+  'care_phase', 'age_groups', 'gender_specific', 'insurance', 'languages', 'service_types',
+  'telehealth_available', 'walk_ins_accepted', 'max_distance_miles',
+]);
+
+function hasValue(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : value !== undefined && value !== null && value !== false;
+}
+
+/**
+ * Rule-based ambiguity detection, for extractors that can't ask the model
+ */
+export function detectAmbiguities(query: string, filters: CanonicalSearchFilters): FilterAmbiguity[] {
+  const ambiguities: FilterAmbiguity[] = [];
+  const nothingExtracted = !NARROWING_FILTERS.some(key => hasValue(filters[key]));
+
+  if (!hasValue(filters.age_groups) && PERSON_WITHOUT_AGE_PATTERN.test(query)) {
+    // Youth and adult services rarely overlap, so age must be known first
+    ambiguities.push({ ...AGE_GROUP_QUESTION, is_critical: true });
+  }
+
+  if (!filters.care_phase) {
+    ambiguities.push({ ...CARE_PHASE_QUESTION, is_critical: nothingExtracted });
+  }
+
+  return ambiguities;
+}
+
+/**
+ * Clean ambiguities from any extractor: drop malformed entries, fields we
+ * can't merge an answer into and fields the filters already answer
+ */
+export function normalizeAmbiguities(response: LLMFilterExtractionResponse): FilterAmbiguity[] {
+  const seen = new Set<string>();
+
+  return (Array.isArray(response.ambiguities) ? response.ambiguities : []).filter(ambiguity => {
+    if (!ambiguity || typeof ambiguity.question !== 'string' || !ALLOWED_FIELDS.has(ambiguity.field)) return false;
+    if (!Array.isArray(ambiguity.options) || ambiguity.options.length === 0) return false;
+    if (hasValue(response.filters[ambiguity.field as FilterKey]) || seen.has(ambiguity.field)) return false;
+
+    seen.add(ambiguity.field);
+    ambiguity.is_critical = ambiguity.is_critical === true;
+    ambiguity.options = ambiguity.options.filter(
+      option => option && typeof option.label === 'string' && ['string', 'number', 'boolean'].includes(typeof option.value)
+    );
+    return ambiguity.options.length > 0;
+  });
+}
@@ -2,12 +2,27 @@
  * Backend API Client
  *
  * Handles all communication with FastAPI backend.
- * Implements retry logic, error handling, and response transformation.
+ * Implements retry logic, per-endpoint timeout budgets, circuit breaking,
+ * error handling, and response transformation.
  */
 
+import type { SearchResponseV2, ResourceDetailV2, LLMFilterExtractionResponse } from '@/types/search';
+import { createCircuitBreaker, type CircuitBreaker, type CircuitSnapshot } from './circuit-breaker';
+import {
+  parseSearchResponseV2,
+  parseResourceDetailV2,
+  parseExtractFiltersResponse,
+  type ParseResult,
+  type SchemaIssue,
+  type SchemaPayload,
+} from './backend-schema';
+import { createLogger, getCorrelationId, CORRELATION_ID_HEADER } from './logger';
+
 const FASTAPI_URL = process.env.FASTAPI_URL || 'https://api.wearecommonlight.com';
 const FASTAPI_API_KEY = process.env.FASTAPI_API_KEY || '';
 
+const log = createLogger('backend-client');
+
 interface RetryOptions {
   maxRetries: number;
   backoffMs: number;
@@ -16,26 +31,155 @@ interface RetryOptions {
 
 const DEFAULT_RETRY_OPTIONS: RetryOptions = {
   maxRetries: 3,
-  backoffMs: 1000,
+  backoffMs: 500,
   retryableStatuses: [408, 429, 500, 502, 503, 504],
 };
 
+export type BackendEndpoint = 'search' | 'detail' | 'extract';
+
+interface EndpointBudget {
+  /** Timeout for a single attempt (request is aborted after this) */
+  attemptTimeoutMs: number;
+
+  /** Total wall-clock budget across all attempts and backoff delays */
+  totalBudgetMs: number;
+}
+
+/**
+ * Latency budgets per endpoint
+ * A crisis worker should wait seconds, not tens of seconds, for a failure.
+ */
+const ENDPOINT_BUDGETS: Record<BackendEndpoint, EndpointBudget> = {
+  search: { attemptTimeoutMs: 4000, totalBudgetMs: 8000 },
+  detail: { attemptTimeoutMs: 3000, totalBudgetMs: 5000 },
+  extract: { attemptTimeoutMs: 5000, totalBudgetMs: 6000 },
+};
+
+const BREAKER_FAILURE_THRESHOLD = Number(process.env.BACKEND_BREAKER_FAILURE_THRESHOLD) || 5;
+const BREAKER_COOLDOWN_MS = Number(process.env.BACKEND_BREAKER_COOLDOWN_MS) || 30_000;
+
+/**
+ * One circuit breaker per endpoint, so a failing LLM endpoint
+ * doesn't block resource search
+ */
+const circuitBreakers: Record<BackendEndpoint, CircuitBreaker> = {
+  search: createCircuitBreaker({ failureThreshold: BREAKER_FAILURE_THRESHOLD, cooldownMs: BREAKER_COOLDOWN_MS }),
+  detail: createCircuitBreaker({ failureThreshold: BREAKER_FAILURE_THRESHOLD, cooldownMs: BREAKER_COOLDOWN_MS }),
+  extract: createCircuitBreaker({ failureThreshold: BREAKER_FAILURE_THRESHOLD, cooldownMs: BREAKER_COOLDOWN_MS }),
+};
+
+export class BackendAPIError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public responseBody?: any
+  ) {
+    super(message);
+    this.name = 'BackendAPIError';
+  }
+}
+
+/**
+ * Thrown without contacting the backend while an endpoint's circuit is open
+ */
+export class BackendCircuitOpenError extends BackendAPIError {
+  constructor(
+    public endpoint: BackendEndpoint,
+    public circuit: CircuitSnapshot
+  ) {
+    super(`Backend ${endpoint} circuit is open - failing fast`, 503, { circuit });
+    this.name = 'BackendCircuitOpenError';
+  }
+}
+
 /**
- * Base fetch with retry logic and error handling
+ * Thrown when the backend responds successfully but the payload breaks the
+ * v2 contract. `issues` lists every offending path.
+ */
+export class BackendValidationError extends BackendAPIError {
+  constructor(
+    public payload: SchemaPayload,
+    public issues: SchemaIssue[]
+  ) {
+    super(
+      `Invalid ${payload} payload from backend: ` +
+        issues.slice(0, 5).map(i => `${i.path} (expected ${i.expected}, got ${i.received})`).join('; ') +
+        (issues.length > 5 ? ` and ${issues.length - 5} more` : ''),
+      502,
+      { issues }
+    );
+    this.name = 'BackendValidationError';
+  }
+}
+
+/**
+ * Unwrap a parse result or throw BackendValidationError
+ */
+function unwrap<T>(payload: SchemaPayload, result: ParseResult<T>): T {
+  if (!result.ok) {
+    throw new BackendValidationError(payload, result.issues);
+  }
+  return result.value;
+}
+
+/**
+ * Base fetch with retry logic, timeouts and circuit breaking
+ *
+ * - Each attempt is aborted after the endpoint's attempt timeout, which
+ *   covers reading and validating the body: a body that stalls after the
+ *   headers is retried and counted by the breaker like any other timeout
+ * - No new attempt or backoff starts once the total budget would be exceeded
+ * - Non-retryable HTTP errors (e.g. 404) are thrown immediately with their status
+ * - A body that fails `parse` with BackendValidationError is thrown
+ *   immediately; the backend answered, so the breaker records a success
  */
-async function fetchWithRetry(
+async function fetchWithRetry<T>(
+  endpoint: BackendEndpoint,
   url: string,
-  options: RequestInit = {},
+  options: RequestInit,
+  parse: (body: unknown) => T,
   retryOptions: Partial<RetryOptions> = {}
-): Promise<Response> {
+): Promise<T> {
   const { maxRetries, backoffMs, retryableStatuses } = {
     ...DEFAULT_RETRY_OPTIONS,
     ...retryOptions,
   };
+  const { attemptTimeoutMs, totalBudgetMs } = ENDPOINT_BUDGETS[endpoint];
+  const breaker = circuitBreakers[endpoint];
 
+  if (!breaker.allowRequest()) {
+    throw new BackendCircuitOpenError(endpoint, breaker.snapshot());
+  }
+
+  const startedAt = Date.now();
+  const deadline = startedAt + totalBudgetMs;
   let lastError: Error | null = null;
+  let attempts = 0;
+
+  // One log line per backend call: status, retries and total duration
+  const logOutcome = (status: number | undefined, error?: Error) => {
+    const fields = {
+      endpoint,
+      backend_status: status,
+      retry_count: Math.max(0, attempts - 1),
+      duration_ms: Date.now() - startedAt,
+      error,
+    };
+    if (error) {
+      log.warn('Backend request failed', fields);
+    } else {
+      log.info('Backend request', fields);
+    }
+  };
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const timeoutMs = Math.min(attemptTimeoutMs, deadline - Date.now());
+    if (timeoutMs <= 0) break;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    attempts++;
+
     try {
       // Build headers - only include Authorization if API key is set
       const headers: Record<string, string> = {
@@ -47,51 +191,95 @@ async function fetchWithRetry(
         headers['Authorization'] = `Bearer ${FASTAPI_API_KEY}`;
       }
 
+      const correlationId = getCorrelationId();
+      if (correlationId) {
+        headers[CORRELATION_ID_HEADER] = correlationId;
+      }
+
       const response = await fetch(url, {
         ...options,
         headers,
+        signal: controller.signal,
       });
 
-      // Success - return response
+      // Success - read and validate the body before the attempt timer stops
       if (response.ok) {
-        return response;
+        let value: T;
+        try {
+          value = parse(await response.json());
+        } catch (error) {
+          if (!(error instanceof BackendValidationError)) throw error;
+          breaker.recordSuccess();
+          logOutcome(response.status, error);
+          throw error;
+        }
+        breaker.recordSuccess();
+        logOutcome(response.status);
+        return value;
       }
 
-      // Check if error is retryable
+      const httpError = new BackendAPIError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        response.status
+      );
+
+      // Non-retryable status means the backend is up - fail without tripping the breaker
       if (!retryableStatuses.includes(response.status)) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        breaker.recordSuccess();
+        logOutcome(response.status, httpError);
+        throw httpError;
       }
 
-      lastError = new Error(`HTTP ${response.status}: ${response.statusText}`);
+      lastError = httpError;
     } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
+      if (
+        error instanceof BackendValidationError ||
+        (error instanceof BackendAPIError && !retryableStatuses.includes(error.statusCode ?? 0))
+      ) {
+        throw error;
+      }
 
-      // Network errors are retryable
-      if (attempt === maxRetries) {
-        throw lastError;
+      // Network errors, timeouts and unreadable bodies are retryable
+      if (controller.signal.aborted) {
+        lastError = new BackendAPIError(`Request timed out after ${timeoutMs}ms`, 504);
+      } else if (!(error instanceof BackendAPIError)) {
+        lastError = error instanceof Error ? error : new Error(String(error));
       }
+    } finally {
+      clearTimeout(timer);
     }
 
-    // Wait before retry with exponential backoff
+    // Wait before retry with exponential backoff, if the budget allows
     if (attempt < maxRetries) {
       const delay = backoffMs * Math.pow(2, attempt);
-      console.log(`[Backend Client] Retry ${attempt + 1}/${maxRetries} after ${delay}ms`);
+      if (Date.now() + delay >= deadline) {
+        log.warn('Latency budget exhausted', { endpoint, budget_ms: totalBudgetMs, attempts: attempt + 1 });
+        break;
+      }
+      log.info('Retrying backend request', { endpoint, retry: attempt + 1, max_retries: maxRetries, delay_ms: delay });
       await new Promise(resolve => setTimeout(resolve, delay));
     }
   }
 
-  throw lastError || new Error('Max retries exceeded');
+  breaker.recordFailure();
+  const finalError = lastError || new BackendAPIError(`${endpoint} budget of ${totalBudgetMs}ms exceeded`, 504);
+  logOutcome(finalError instanceof BackendAPIError ? finalError.statusCode : undefined, finalError);
+  throw finalError;
 }
 
-export class BackendAPIError extends Error {
-  constructor(
-    message: string,
-    public statusCode?: number,
-    public responseBody?: any
-  ) {
-    super(message);
-    this.name = 'BackendAPIError';
+/**
+ * Wrap a failure in BackendAPIError, preserving status code and subtype
+ */
+function toBackendAPIError(message: string, error: unknown): BackendAPIError {
+  if (error instanceof BackendCircuitOpenError || error instanceof BackendValidationError) {
+    return error;
   }
+
+  return new BackendAPIError(
+    message,
+    error instanceof BackendAPIError ? error.statusCode : undefined,
+    { originalError: error }
+  );
 }
 
 /**
@@ -107,24 +295,20 @@ export const BackendClient = {
       current_location?: { lat: number; lon: number };
       user_type?: string;
     }
-  ): Promise<any> {
+  ): Promise<LLMFilterExtractionResponse> {
     try {
-      const response = await fetchWithRetry(
+      return await fetchWithRetry(
+        'extract',
         `${FASTAPI_URL}/llm/extract-filters`,
         {
           method: 'POST',
           body: JSON.stringify({ query, context }),
-        }
+        },
+        body => unwrap('extract', parseExtractFiltersResponse(body, query))
       );
-
-      return await response.json();
     } catch (error) {
-      console.error('[Backend Client] Filter extraction failed:', error);
-      throw new BackendAPIError(
-        'Failed to extract filters from query',
-        undefined,
-        { originalError: error }
-      );
+      log.error('Filter extraction failed', { error });
+      throw toBackendAPIError('Failed to extract filters from query', error);
     }
   },
 
@@ -133,43 +317,87 @@ export const BackendClient = {
    */
   async searchResources(
     params: Record<string, string>
-  ): Promise<any> {
+  ): Promise<SearchResponseV2> {
     try {
       const queryString = new URLSearchParams(params).toString();
-      const response = await fetchWithRetry(
+      return await fetchWithRetry(
+        'search',
         `${FASTAPI_URL}/v2/resources/search?${queryString}`,
-        { method: 'GET' }
+        { method: 'GET' },
+        body => unwrap('search', parseSearchResponseV2(body))
       );
-
-      return await response.json();
     } catch (error) {
-      console.error('[Backend Client] Resource search failed:', error);
-      throw new BackendAPIError(
-        'Failed to search resources',
-        undefined,
-        { originalError: error }
-      );
+      log.error('Resource search failed', { error });
+      throw toBackendAPIError('Failed to search resources', error);
     }
   },
 
   /**
    * Get resource by ID
    */
-  async getResourceById(resourceId: string): Promise<any> {
+  async getResourceById(resourceId: string): Promise<ResourceDetailV2> {
     try {
-      const response = await fetchWithRetry(
+      return await fetchWithRetry(
+        'detail',
         `${FASTAPI_URL}/v2/resources/${resourceId}`,
-        { method: 'GET' }
+        { method: 'GET' },
+        body => unwrap('detail', parseResourceDetailV2(body))
       );
+    } catch (error) {
+      log.error('Get resource failed', { resource_id: resourceId, error });
+      throw toBackendAPIError('Failed to get resource details', error);
+    }
+  },
 
-      return await response.json();
+  /**
+   * Lightweight reachability probe for deep health checks.
+   * Single attempt with a short timeout; bypasses retries and the circuit
+   * breakers so monitoring traffic never changes breaker state.
+   */
+  async probe(timeoutMs = 2000): Promise<{
+    reachable: boolean;
+    latency_ms: number;
+    status_code?: number;
+    error?: string;
+  }> {
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(`${FASTAPI_URL}/health`, {
+        method: 'GET',
+        signal: controller.signal,
+        headers: FASTAPI_API_KEY ? { Authorization: `Bearer ${FASTAPI_API_KEY}` } : undefined,
+      });
+
+      return {
+        reachable: response.ok,
+        latency_ms: Date.now() - startedAt,
+        status_code: response.status,
+        error: response.ok ? undefined : `HTTP ${response.status}: ${response.statusText}`,
+      };
     } catch (error) {
-      console.error('[Backend Client] Get resource failed:', error);
-      throw new BackendAPIError(
-        'Failed to get resource details',
-        undefined,
-        { originalError: error }
-      );
+      return {
+        reachable: false,
+        latency_ms: Date.now() - startedAt,
+        error: controller.signal.aborted
+          ? `Timed out after ${timeoutMs}ms`
+          : error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
     }
   },
+
+  /**
+   * Circuit breaker state per endpoint (exposed via /api/health)
+   */
+  getCircuitStates(): Record<BackendEndpoint, CircuitSnapshot> {
+    return {
+      search: circuitBreakers.search.snapshot(),
+      detail: circuitBreakers.detail.snapshot(),
+      extract: circuitBreakers.extract.snapshot(),
+    };
+  },
 };
@@ -0,0 +1,451 @@
+/**
+ * Backend Response Validation
+ *
+ * Runtime validation of FastAPI v2 payloads against the types in types/search.ts.
+ * - Required fields that are missing or mistyped fail the parse with every
+ *   offending path listed (e.g. "results[3].details.name"); BackendClient
+ *   surfaces these as BackendValidationError
+ * - Fields the contract declares but the backend sometimes omits are defaulted
+ *   and counted, so contract drift shows up in /api/health?deep=1
+ * - A malformed search result is dropped and logged rather than failing the
+ *   whole search
+ * - Resource details are accepted in the nested v2 shape or the flat shape
+ *   (id, name, street_address, provenance) older backends return
+ */
+
+import type {
+  SearchResponseV2,
+  SearchResultV2,
+  ResourceDetailV2,
+  LLMFilterExtractionResponse,
+} from '@/types/search';
+import { createLogger } from './logger';
+
+const log = createLogger('backend-schema');
+
+const MILES_TO_KM = 1.609344;
+
+export interface SchemaIssue {
+  /** Path to the offending value, e.g. "results[3].match.score" */
+  path: string;
+
+  /** What the contract expects */
+  expected: string;
+
+  /** What the backend sent */
+  received: string;
+}
+
+export type SchemaPayload = 'search' | 'detail' | 'extract';
+
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: SchemaIssue[] };
+
+type Kind = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+interface FieldStats {
+  seen: number;
+  missing: number;
+}
+
+/**
+ * Contract counters (module-level, per server instance)
+ */
+const contractStats = {
+  validations: 0,
+  failures: 0,
+  /** Search results dropped for failing validation */
+  dropped_results: 0,
+  fields: new Map<string, FieldStats>(),
+};
+
+interface Context {
+  issues: SchemaIssue[];
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isKind(value: unknown, kind: Kind): boolean {
+  switch (kind) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === kind;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return isKind(value, 'object');
+}
+
+/**
+ * Object fields of a payload; anything else reads as empty (the caller
+ * reports the wrong type)
+ */
+function asRecord(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {};
+}
+
+/**
+ * Record presence of a tracked field ("results[3].details.city" → "results[].details.city")
+ */
+function track(path: string, present: boolean) {
+  const key = path.replace(/\[\d+\]/g, '[]');
+  const stats = contractStats.fields.get(key) || { seen: 0, missing: 0 };
+  stats.seen++;
+  if (!present) stats.missing++;
+  contractStats.fields.set(key, stats);
+}
+
+/**
+ * Required field - missing or wrong type is an issue
+ */
+function required<T>(ctx: Context, obj: Record<string, unknown>, key: string, kind: Kind, path: string): T | undefined {
+  const value = obj[key];
+  if (!isKind(value, kind)) {
+    ctx.issues.push({ path: `${path}${key}`, expected: kind, received: describe(value) });
+    return undefined;
+  }
+  return value as T;
+}
+
+/**
+ * Optional field - absence is tracked, wrong type is an issue
+ */
+function optional<T>(ctx: Context, obj: Record<string, unknown>, key: string, kind: Kind, path: string): T | undefined {
+  const value = obj[key];
+  const present = value !== undefined && value !== null;
+  track(`${path}${key}`, present);
+
+  if (!present) return undefined;
+  if (!isKind(value, kind)) {
+    ctx.issues.push({ path: `${path}${key}`, expected: `${kind} | undefined`, received: describe(value) });
+    return undefined;
+  }
+  return value as T;
+}
+
+/**
+ * Declared-but-often-omitted field - absence is tracked and defaulted
+ */
+function expected<T>(ctx: Context, obj: Record<string, unknown>, key: string, kind: Kind, path: string, fallback: T): T {
+  return optional<T>(ctx, obj, key, kind, path) ?? fallback;
+}
+
+function oneOf<T extends string>(
+  ctx: Context,
+  value: string | undefined,
+  allowed: readonly T[],
+  path: string
+): T | undefined {
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) {
+    ctx.issues.push({ path, expected: allowed.join(' | '), received: JSON.stringify(value) });
+    return undefined;
+  }
+  return value as T;
+}
+
+const RESOURCE_TYPES = ['facility', 'service'] as const;
+const VERIFICATION_STATUSES = ['verified', 'partially_verified', 'unverified', 'stale'] as const;
+const VERIFICATION_METHODS = ['automated', 'manual', 'community'] as const;
+const TIERS = ['primary', 'secondary', 'suppressed'] as const;
+
+function validateVerification(ctx: Context, raw: unknown, path: string): SearchResultV2['verification'] {
+  const p = `${path}verification.`;
+  if (!isRecord(raw)) {
+    ctx.issues.push({ path: `${path}verification`, expected: 'object', received: describe(raw) });
+    return { status: 'unverified', last_verified_at: null, confidence_score: 0, days_since_verification: null };
+  }
+
+  return {
+    status: oneOf(ctx, expected<string>(ctx, raw, 'status', 'string', p, 'unverified'), VERIFICATION_STATUSES, `${p}status`) ?? 'unverified',
+    last_verified_at: optional<string>(ctx, raw, 'last_verified_at', 'string', p) ?? null,
+    confidence_score: required<number>(ctx, raw, 'confidence_score', 'number', p) ?? 0,
+    days_since_verification: optional<number>(ctx, raw, 'days_since_verification', 'number', p) ?? null,
+    verification_method: oneOf(ctx, optional<string>(ctx, raw, 'verification_method', 'string', p), VERIFICATION_METHODS, `${p}verification_method`),
+    verified_by: optional<string>(ctx, raw, 'verified_by', 'string', p),
+    data_completeness: optional<number>(ctx, raw, 'data_completeness', 'number', p),
+  };
+}
+
+function validateDetails(ctx: Context, raw: unknown, path: string): SearchResultV2['details'] {
+  const p = `${path}details.`;
+  if (!isRecord(raw)) {
+    ctx.issues.push({ path: `${path}details`, expected: 'object', received: describe(raw) });
+    return { name: '', services: [] };
+  }
+
+  const services = expected<unknown[]>(ctx, raw, 'services', 'array', p, []).map((item, i) => {
+    const sp = `${p}services[${i}].`;
+    const svc = asRecord(item);
+    return {
+      id: optional<string>(ctx, svc, 'id', 'string', sp),
+      name: required<string>(ctx, svc, 'name', 'string', sp) ?? '',
+      description: optional<string>(ctx, svc, 'description', 'string', sp),
+      canonical_type: optional<string>(ctx, svc, 'canonical_type', 'string', sp),
+      type_label: optional<string>(ctx, svc, 'type_label', 'string', sp),
+      raw_type: optional<string>(ctx, svc, 'raw_type', 'string', sp),
+    };
+  });
+
+  return {
+    name: required<string>(ctx, raw, 'name', 'string', p) ?? '',
+    display_name: optional<string>(ctx, raw, 'display_name', 'string', p),
+    description: optional<string>(ctx, raw, 'description', 'string', p),
+    phone_numbers: optional<string[]>(ctx, raw, 'phone_numbers', 'array', p),
+    email: optional<string>(ctx, raw, 'email', 'string', p),
+    website: optional<string>(ctx, raw, 'website', 'string', p),
+    street: optional<string>(ctx, raw, 'street', 'string', p),
+    city: optional<string>(ctx, raw, 'city', 'string', p),
+    state: optional<string>(ctx, raw, 'state', 'string', p),
+    postal_code: optional<string>(ctx, raw, 'postal_code', 'string', p),
+    latitude: optional<number>(ctx, raw, 'latitude', 'number', p),
+    longitude: optional<number>(ctx, raw, 'longitude', 'number', p),
+    distance_km: optional<number>(ctx, raw, 'distance_km', 'number', p),
+    hours_text: optional<string>(ctx, raw, 'hours_text', 'string', p),
+    languages_supported: raw.languages_supported,
+    canonical_languages: optional<string[]>(ctx, raw, 'canonical_languages', 'array', p),
+    language_labels: optional<string[]>(ctx, raw, 'language_labels', 'array', p),
+    services,
+    transportation_info: optional(ctx, raw, 'transportation_info', 'object', p),
+    accessibility_details: optional(ctx, raw, 'accessibility_details', 'object', p),
+    financial_access: optional(ctx, raw, 'financial_access', 'object', p),
+    availability_status: optional(ctx, raw, 'availability_status', 'object', p),
+    population_policies: optional(ctx, raw, 'population_policies', 'object', p),
+  };
+}
+
+function validateMatch(ctx: Context, raw: unknown, path: string): SearchResultV2['match'] {
+  const p = `${path}match.`;
+  if (!isRecord(raw)) {
+    ctx.issues.push({ path: `${path}match`, expected: 'object', received: describe(raw) });
+    return { score: 0, criteria_met: [], urgency_detected: null };
+  }
+
+  return {
+    score: required<number>(ctx, raw, 'score', 'number', p) ?? 0,
+    criteria_met: expected<string[]>(ctx, raw, 'criteria_met', 'array', p, []),
+    urgency_detected: optional<boolean>(ctx, raw, 'urgency_detected', 'boolean', p) ?? null,
+  };
+}
+
+function validateResult(ctx: Context, raw: unknown, path: string): SearchResultV2 {
+  const body = asRecord(raw);
+
+  return {
+    resource_id: required<string>(ctx, body, 'resource_id', 'string', path) ?? '',
+    resource_type: oneOf(ctx, expected<string>(ctx, body, 'resource_type', 'string', path, 'facility'), RESOURCE_TYPES, `${path}resource_type`) ?? 'facility',
+    match: validateMatch(ctx, body.match, path),
+    verification: validateVerification(ctx, body.verification, path),
+    tier: oneOf(ctx, optional<string>(ctx, body, 'tier', 'string', path), TIERS, `${path}tier`),
+    details: validateDetails(ctx, body.details, path),
+  };
+}
+
+/**
+ * Run a validation and update counters
+ */
+function run<T>(validate: (ctx: Context) => T): ParseResult<T> {
+  const ctx: Context = { issues: [] };
+  contractStats.validations++;
+
+  const value = validate(ctx);
+
+  if (ctx.issues.length > 0) {
+    contractStats.failures++;
+    return { ok: false, issues: ctx.issues };
+  }
+
+  return { ok: true, value };
+}
+
+/**
+ * Validate GET /v2/resources/search response
+ */
+export function parseSearchResponseV2(raw: unknown): ParseResult<SearchResponseV2> {
+  return run(ctx => {
+    if (!isKind(raw, 'object')) {
+      ctx.issues.push({ path: '(root)', expected: 'object', received: describe(raw) });
+    }
+    const body = asRecord(raw);
+
+    const results = (required<unknown[]>(ctx, body, 'results', 'array', '') ?? [])
+      .flatMap((result, i) => {
+        // Own context: one bad result shouldn't fail the search
+        const resultCtx: Context = { issues: [] };
+        const value = validateResult(resultCtx, result, `results[${i}].`);
+        if (resultCtx.issues.length === 0) return [value];
+
+        contractStats.dropped_results++;
+        log.warn('Dropped malformed search result', {
+          resource_id: isRecord(result) && typeof result.resource_id === 'string' ? result.resource_id : undefined,
+          issues: resultCtx.issues,
+        });
+        return [];
+      });
+
+    const filters = expected<Record<string, unknown>>(ctx, body, 'filters_applied', 'object', '', {});
+    const pagination = expected<Record<string, unknown>>(ctx, body, 'pagination', 'object', '', {});
+
+    return {
+      total: required<number>(ctx, body, 'total', 'number', '') ?? 0,
+      results,
+      filters_applied: {
+        ...filters,
+        service_types: expected(ctx, filters, 'service_types', 'array', 'filters_applied.', []),
+        insurance_types: expected(ctx, filters, 'insurance_types', 'array', 'filters_applied.', []),
+        languages: expected(ctx, filters, 'languages', 'array', 'filters_applied.', []),
+        verified_only: expected(ctx, filters, 'verified_only', 'boolean', 'filters_applied.', false),
+      },
+      pagination: {
+        limit: expected(ctx, pagination, 'limit', 'number', 'pagination.', results.length),
+        offset: expected(ctx, pagination, 'offset', 'number', 'pagination.', 0),
+        has_more: expected(ctx, pagination, 'has_more', 'boolean', 'pagination.', false),
+      },
+      metadata: optional(ctx, body, 'metadata', 'object', ''),
+    };
+  });
+}
+
+/**
+ * Validate GET /v2/resources/{id} response (nested or flat shape)
+ */
+export function parseResourceDetailV2(raw: unknown): ParseResult<ResourceDetailV2> {
+  return run(ctx => {
+    if (!isKind(raw, 'object')) {
+      ctx.issues.push({ path: '(root)', expected: 'object', received: describe(raw) });
+    }
+    const body = asRecord(raw);
+
+    if (body.details === undefined && body.resource_id === undefined) {
+      return validateFlatDetail(ctx, body);
+    }
+
+    return {
+      resource_id: required<string>(ctx, body, 'resource_id', 'string', '') ?? '',
+      resource_type: oneOf(ctx, expected<string>(ctx, body, 'resource_type', 'string', '', 'facility'), RESOURCE_TYPES, 'resource_type') ?? 'facility',
+      match: body.match !== undefined ? validateMatch(ctx, body.match, '') : undefined,
+      verification: validateVerification(ctx, body.verification, ''),
+      tier: oneOf(ctx, optional<string>(ctx, body, 'tier', 'string', ''), TIERS, 'tier'),
+      details: validateDetails(ctx, body.details, ''),
+    };
+  });
+}
+
+/**
+ * Flat detail payload: { id, name, street_address, services[].service_type,
+ * provenance: { rcs, last_verified_at }, ... } mapped to the nested shape
+ */
+function validateFlatDetail(ctx: Context, body: Record<string, unknown>): ResourceDetailV2 {
+  const provenance = optional<Record<string, unknown>>(ctx, body, 'provenance', 'object', '') ?? {};
+  const lastVerifiedAt = optional<string>(ctx, provenance, 'last_verified_at', 'string', 'provenance.') ?? null;
+  const distanceMiles = optional<number>(ctx, body, 'distance_miles', 'number', '');
+
+  const services = expected<unknown[]>(ctx, body, 'services', 'array', '', []).map((item, i) => {
+    const sp = `services[${i}].`;
+    const svc = asRecord(item);
+    const serviceType = optional<string>(ctx, svc, 'service_type', 'string', sp);
+    return {
+      id: optional<string>(ctx, svc, 'id', 'string', sp),
+      name: required<string>(ctx, svc, 'name', 'string', sp) ?? '',
+      description: optional<string>(ctx, svc, 'description', 'string', sp),
+      canonical_type: serviceType,
+      raw_type: serviceType,
+    };
+  });
+
+  return {
+    resource_id: required<string>(ctx, body, 'id', 'string', '') ?? '',
+    resource_type: oneOf(ctx, expected<string>(ctx, body, 'resource_type', 'string', '', 'facility'), RESOURCE_TYPES, 'resource_type') ?? 'facility',
+    verification: {
+      status: lastVerifiedAt ? 'verified' : 'unverified',
+      last_verified_at: lastVerifiedAt,
+      confidence_score: optional<number>(ctx, provenance, 'rcs', 'number', 'provenance.')
+        ?? optional<number>(ctx, body, 'avg_rcs', 'number', '')
+        ?? 0,
+      days_since_verification: lastVerifiedAt
+        ? Math.floor((Date.now() - new Date(lastVerifiedAt).getTime()) / 86_400_000)
+        : null,
+    },
+    details: {
+      name: required<string>(ctx, body, 'name', 'string', '') ?? '',
+      display_name: optional<string>(ctx, body, 'display_name', 'string', ''),
+      description: optional<string>(ctx, body, 'description', 'string', ''),
+      phone_numbers: optional<string[]>(ctx, body, 'phone_numbers', 'array', ''),
+      email: optional<string>(ctx, body, 'email', 'string', ''),
+      website: optional<string>(ctx, body, 'website', 'string', ''),
+      street: optional<string>(ctx, body, 'street_address', 'string', ''),
+      city: optional<string>(ctx, body, 'city', 'string', ''),
+      state: optional<string>(ctx, body, 'state', 'string', ''),
+      postal_code: optional<string>(ctx, body, 'postal_code', 'string', ''),
+      latitude: optional<number>(ctx, body, 'latitude', 'number', ''),
+      longitude: optional<number>(ctx, body, 'longitude', 'number', ''),
+      distance_km: distanceMiles !== undefined ? distanceMiles * MILES_TO_KM : undefined,
+      hours_text: optional<string>(ctx, body, 'hours_text', 'string', ''),
+      services,
+    },
+  };
+}
+
+/**
+ * Validate POST /llm/extract-filters response
+ */
+export function parseExtractFiltersResponse(raw: unknown, query: string): ParseResult<LLMFilterExtractionResponse> {
+  return run(ctx => {
+    if (!isKind(raw, 'object')) {
+      ctx.issues.push({ path: '(root)', expected: 'object', received: describe(raw) });
+    }
+    const body = asRecord(raw);
+    const metadata = expected<Record<string, unknown>>(ctx, body, 'metadata', 'object', '', {});
+    const tokens = expected<Record<string, unknown>>(ctx, metadata, 'tokens', 'object', 'metadata.', {});
+
+    return {
+      originalQuery: expected(ctx, body, 'originalQuery', 'string', '', query),
+      filters: required(ctx, body, 'filters', 'object', '') ?? {},
+      explanation: expected(ctx, body, 'explanation', 'string', '', ''),
+      confidence: expected(ctx, body, 'confidence', 'number', '', 0),
+      ambiguities: optional(ctx, body, 'ambiguities', 'array', ''),
+      metadata: {
+        provider: expected(ctx, metadata, 'provider', 'string', 'metadata.', 'backend'),
+        model: expected(ctx, metadata, 'model', 'string', 'metadata.', 'unknown'),
+        tokens: {
+          input: expected(ctx, tokens, 'input', 'number', 'metadata.tokens.', 0),
+          output: expected(ctx, tokens, 'output', 'number', 'metadata.tokens.', 0),
+        },
+      },
+    };
+  });
+}
+
+/**
+ * Contract drift counters for monitoring
+ * Fields are sorted by missing rate, most often missing first.
+ */
+export function getContractStats() {
+  const fields = Array.from(contractStats.fields.entries())
+    .map(([path, { seen, missing }]) => ({
+      path,
+      seen,
+      missing,
+      missing_rate: seen > 0 ? Number((missing / seen).toFixed(3)) : 0,
+    }))
+    .filter(field => field.missing > 0)
+    .sort((a, b) => b.missing_rate - a.missing_rate || b.missing - a.missing);
+
+  return {
+    validations: contractStats.validations,
+    failures: contractStats.failures,
+    dropped_results: contractStats.dropped_results,
+    missing_fields: fields,
+  };
+}
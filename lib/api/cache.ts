@@ -0,0 +1,136 @@
+/**
+ * In-Process Cache
+ *
+ * Small LRU cache with TTLs and stale-while-revalidate semantics.
+ * - Fresh entries (age < ttlMs) are served directly
+ * - Stale entries (age < ttlMs + staleMs) are served while a background refresh runs
+ * - Expired entries are reloaded before responding
+ * - Concurrent misses for the same key share a single loader call
+ *
+ * State lives in module memory, so each server instance keeps its own cache.
+ */
+
+import { createLogger } from './logger';
+
+const log = createLogger('cache');
+
+export interface CacheOptions {
+  /** How long an entry is considered fresh */
+  ttlMs: number;
+
+  /** Extra window in which a stale entry is served while revalidating */
+  staleMs: number;
+
+  /** Maximum number of entries before least-recently-used eviction */
+  maxEntries: number;
+
+  /** Cache name for log lines and stats */
+  name: string;
+}
+
+export type CacheStatus = 'hit' | 'stale' | 'miss';
+
+export interface CacheResult<T> {
+  value: T;
+  status: CacheStatus;
+  /** Age of the returned value in ms (0 for a fresh load) */
+  ageMs: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+export interface Cache<T> {
+  get(key: string, loader: () => Promise<T>): Promise<CacheResult<T>>;
+  delete(key: string): void;
+  clear(): void;
+  stats(): { size: number; hits: number; stale: number; misses: number };
+}
+
+/**
+ * Create a cache instance
+ */
+export function createCache<T>(options: CacheOptions): Cache<T> {
+  const { ttlMs, staleMs, maxEntries, name } = options;
+
+  // Map preserves insertion order - re-inserting on access gives LRU ordering
+  const entries = new Map<string, CacheEntry<T>>();
+  const inFlight = new Map<string, Promise<T>>();
+  const counters = { hits: 0, stale: 0, misses: 0 };
+
+  const store = (key: string, value: T) => {
+    entries.delete(key);
+    entries.set(key, { value, storedAt: Date.now() });
+
+    while (entries.size > maxEntries) {
+      const oldestKey = entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      entries.delete(oldestKey);
+    }
+  };
+
+  const load = (key: string, loader: () => Promise<T>): Promise<T> => {
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const promise = loader()
+      .then(value => {
+        store(key, value);
+        return value;
+      })
+      .finally(() => {
+        inFlight.delete(key);
+      });
+
+    inFlight.set(key, promise);
+    return promise;
+  };
+
+  return {
+    async get(key, loader) {
+      const entry = entries.get(key);
+      const now = Date.now();
+
+      if (entry) {
+        const ageMs = now - entry.storedAt;
+
+        if (ageMs < ttlMs) {
+          counters.hits++;
+          // Refresh LRU position
+          entries.delete(key);
+          entries.set(key, entry);
+          return { value: entry.value, status: 'hit', ageMs };
+        }
+
+        if (ageMs < ttlMs + staleMs) {
+          counters.stale++;
+          // Serve stale value, revalidate in the background
+          load(key, loader).catch(error => {
+            log.warn('Background revalidation failed', { cache: name, error });
+          });
+          return { value: entry.value, status: 'stale', ageMs };
+        }
+
+        entries.delete(key);
+      }
+
+      counters.misses++;
+      const value = await load(key, loader);
+      return { value, status: 'miss', ageMs: 0 };
+    },
+
+    delete(key) {
+      entries.delete(key);
+    },
+
+    clear() {
+      entries.clear();
+    },
+
+    stats() {
+      return { size: entries.size, ...counters };
+    },
+  };
+}
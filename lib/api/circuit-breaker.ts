@@ -0,0 +1,109 @@
+/**
+ * Circuit Breaker
+ *
+ * Fails fast when a dependency keeps failing instead of making every caller
+ * wait through timeouts and retries.
+ * - closed: requests flow normally, consecutive failures are counted
+ * - open: requests are rejected immediately until the cooldown elapses
+ * - half_open: a single probe request is let through; success closes the
+ *   circuit, failure re-opens it for another cooldown
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures before the circuit opens */
+  failureThreshold: number;
+
+  /** How long the circuit stays open before allowing a probe */
+  cooldownMs: number;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutive_failures: number;
+  opened_at: string | null;
+  last_failure_at: string | null;
+  last_success_at: string | null;
+  /** Milliseconds until a probe is allowed (only while open) */
+  retry_in_ms?: number;
+}
+
+export interface CircuitBreaker {
+  /** Whether a request may proceed right now */
+  allowRequest(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  snapshot(): CircuitSnapshot;
+}
+
+/**
+ * Create a circuit breaker instance
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions): CircuitBreaker {
+  const { failureThreshold, cooldownMs } = options;
+
+  let state: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let openedAt: number | null = null;
+  let lastFailureAt: number | null = null;
+  let lastSuccessAt: number | null = null;
+  let probeInFlight = false;
+
+  const toISO = (ms: number | null) => (ms === null ? null : new Date(ms).toISOString());
+
+  return {
+    allowRequest() {
+      if (state === 'closed') return true;
+
+      if (state === 'open') {
+        if (openedAt !== null && Date.now() - openedAt >= cooldownMs) {
+          state = 'half_open';
+          probeInFlight = true;
+          return true;
+        }
+        return false;
+      }
+
+      // half_open: only one probe at a time
+      if (probeInFlight) return false;
+      probeInFlight = true;
+      return true;
+    },
+
+    recordSuccess() {
+      state = 'closed';
+      consecutiveFailures = 0;
+      openedAt = null;
+      probeInFlight = false;
+      lastSuccessAt = Date.now();
+    },
+
+    recordFailure() {
+      consecutiveFailures++;
+      lastFailureAt = Date.now();
+      probeInFlight = false;
+
+      if (state === 'half_open' || consecutiveFailures >= failureThreshold) {
+        state = 'open';
+        openedAt = lastFailureAt;
+      }
+    },
+
+    snapshot() {
+      const snapshot: CircuitSnapshot = {
+        state,
+        consecutive_failures: consecutiveFailures,
+        opened_at: toISO(openedAt),
+        last_failure_at: toISO(lastFailureAt),
+        last_success_at: toISO(lastSuccessAt),
+      };
+
+      if (state === 'open' && openedAt !== null) {
+        snapshot.retry_in_ms = Math.max(0, cooldownMs - (Date.now() - openedAt));
+      }
+
+      return snapshot;
+    },
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Conversation Store
+ *
+ * Server-side refinement history keyed by conversation_id, so follow-ups
+ * like "now only ones that take Medicaid" or "closer than that" build on
+ * the filters the previous queries produced.
+ *
+ * Conversations belong to the signed-in worker who started them: every
+ * call takes the Clerk user id, and another user's conversation_id simply
+ * isn't found.
+ *
+ * Each turn stores the delta it made; the filters after a turn are always
+ * the previous turns' deltas replayed in order. Editing or removing a turn
+ * in the middle of the chain therefore keeps every later refinement.
+ *
+ * State lives in module memory, so each server instance keeps its own
+ * conversations (same trade-off as the search cache).
+ */
+
+import type {
+  CanonicalSearchFilters,
+  ConversationState,
+  ConversationTurn,
+  FilterDelta,
+} from '@/types/search';
+
+const CONVERSATION_TTL_MS = Number(process.env.CONVERSATION_TTL_MS) || 30 * 60_000;
+const CONVERSATION_MAX_ENTRIES = Number(process.env.CONVERSATION_MAX_ENTRIES) || 1000;
+
+/**
+ * Oldest turns are folded into the first kept turn past this - a call
+ * rarely needs more
+ */
+const MAX_TURNS = 20;
+
+type StoredTurn = Omit<ConversationTurn, 'filters'>;
+
+interface ConversationEntry {
+  turns: StoredTurn[];
+  updatedAt: number;
+}
+
+export interface ConversationStore {
+  get(userId: string, id: string): ConversationState | null;
+  /** Filters in effect before turn `index` (after the last turn when omitted) */
+  filtersBefore(userId: string, id: string, index?: number): CanonicalSearchFilters;
+  /** Append a turn, or replace turn `index` and replay the turns after it */
+  saveTurn(userId: string, id: string, turn: StoredTurn, index?: number): ConversationState;
+  /** Remove one turn and replay the rest; null if there is no such turn */
+  removeTurn(userId: string, id: string, index: number): ConversationState | null;
+  delete(userId: string, id: string): void;
+}
+
+/**
+ * Apply a turn's delta to the filters before it
+ */
+export function applyFilterDelta(filters: CanonicalSearchFilters, delta: FilterDelta): CanonicalSearchFilters {
+  const next: Record<string, unknown> = { ...filters };
+
+  delta.remove.forEach(key => {
+    delete next[key];
+  });
+
+  Object.entries(delta.set).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) next[key] = value;
+  });
+
+  return next as CanonicalSearchFilters;
+}
+
+function replay(id: string, turns: StoredTurn[]): ConversationState {
+  let filters: CanonicalSearchFilters = {};
+
+  return {
+    conversation_id: id,
+    turns: turns.map(turn => {
+      filters = applyFilterDelta(filters, turn.delta);
+      return { ...turn, filters };
+    }),
+  };
+}
+
+/**
+ * Keep the last MAX_TURNS turns. The dropped turns' deltas are folded into
+ * the new first turn, so it sets every filter in effect after it and the
+ * base filters of a long conversation survive the trim.
+ */
+function trimTurns(turns: StoredTurn[]): StoredTurn[] {
+  if (turns.length <= MAX_TURNS) return turns;
+
+  const cut = turns.length - MAX_TURNS;
+  const first = turns[cut];
+  const filters = turns.slice(0, cut + 1).reduce(
+    (current, turn) => applyFilterDelta(current, turn.delta),
+    {} as CanonicalSearchFilters
+  );
+
+  return [{ ...first, delta: { set: filters, remove: [] } }, ...turns.slice(cut + 1)];
+}
+
+/**
+ * Create a conversation store
+ */
+export function createConversationStore(
+  options: { ttlMs: number; maxEntries: number } = {
+    ttlMs: CONVERSATION_TTL_MS,
+    maxEntries: CONVERSATION_MAX_ENTRIES,
+  }
+): ConversationStore {
+  const { ttlMs, maxEntries } = options;
+
+  // Map preserves insertion order - re-inserting on access gives LRU ordering
+  const entries = new Map<string, ConversationEntry>();
+
+  // Same conversation_id from two users -> two conversations
+  const keyOf = (userId: string, id: string) => JSON.stringify([userId, id]);
+
+  const read = (key: string): ConversationEntry | null => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+
+    if (Date.now() - entry.updatedAt > ttlMs) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  };
+
+  const write = (key: string, turns: StoredTurn[]): StoredTurn[] => {
+    const kept = trimTurns(turns);
+    entries.delete(key);
+    entries.set(key, { turns: kept, updatedAt: Date.now() });
+
+    while (entries.size > maxEntries) {
+      const oldestId = entries.keys().next().value;
+      if (oldestId === undefined) break;
+      entries.delete(oldestId);
+    }
+    return kept;
+  };
+
+  return {
+    get(userId, id) {
+      const entry = read(keyOf(userId, id));
+      return entry ? replay(id, entry.turns) : null;
+    },
+
+    filtersBefore(userId, id, index) {
+      const entry = read(keyOf(userId, id));
+      if (!entry) return {};
+
+      const state = replay(id, entry.turns.slice(0, index ?? entry.turns.length));
+      return state.turns.at(-1)?.filters ?? {};
+    },
+
+    saveTurn(userId, id, turn, index) {
+      const key = keyOf(userId, id);
+      const turns = [...(read(key)?.turns ?? [])];
+
+      if (index !== undefined && index >= 0 && index < turns.length) {
+        turns[index] = turn;
+      } else {
+        turns.push(turn);
+      }
+
+      return replay(id, write(key, turns));
+    },
+
+    removeTurn(userId, id, index) {
+      const key = keyOf(userId, id);
+      const entry = read(key);
+      if (!entry || index < 0 || index >= entry.turns.length) return null;
+
+      return replay(id, write(key, entry.turns.filter((_, i) => i !== index)));
+    },
+
+    delete(userId, id) {
+      entries.delete(keyOf(userId, id));
+    },
+  };
+}
+
+export const conversationStore = createConversationStore();
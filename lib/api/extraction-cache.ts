@@ -0,0 +1,59 @@
+/**
+ * Extraction Result Cache
+ *
+ * Caches LLM extraction responses keyed on the normalized (already
+ * redacted) query, so the same query - a landing page example, a worker
+ * re-running a search - doesn't pay for another provider call.
+ *
+ * Follow-ups depend on the conversation's filters, so those are part of
+ * the key. The caller's location is not: it never changes the extracted
+ * filters (location comes from the page). No stale window by default - a
+ * background revalidation would spend tokens nobody asked for.
+ *
+ * The configured providers and models are part of the key too, so a
+ * provider or model change never serves (or accounts a cache hit against)
+ * a model that is no longer configured.
+ *
+ * The cache is shared across organizations: the organization that ran a
+ * query first is billed its tokens, later ones only count a cache hit (see
+ * the admin usage report).
+ */
+
+import type { CanonicalSearchFilters, LLMFilterExtractionResponse } from '@/types/search';
+import { createCache } from './cache';
+import { LLM_PROVIDERS } from './llm-providers';
+
+const EXTRACTION_CACHE_TTL_MS = Number(process.env.EXTRACTION_CACHE_TTL_MS) || 60 * 60_000;
+const EXTRACTION_CACHE_STALE_MS = Number(process.env.EXTRACTION_CACHE_STALE_MS) || 0;
+const EXTRACTION_CACHE_MAX_ENTRIES = Number(process.env.EXTRACTION_CACHE_MAX_ENTRIES) || 500;
+
+export const extractionCache = createCache<LLMFilterExtractionResponse>({
+  ttlMs: EXTRACTION_CACHE_TTL_MS,
+  staleMs: EXTRACTION_CACHE_STALE_MS,
+  maxEntries: EXTRACTION_CACHE_MAX_ENTRIES,
+  name: 'Extraction Cache',
+});
+
+/**
+ * Build a stable cache key from the query and the filters it refines
+ *
+ * - Query lowercased, whitespace collapsed, trailing punctuation dropped
+ * - Previous filters with sorted keys and list values
+ * - Provider order with each provider's model
+ */
+export function buildExtractionCacheKey(query: string, previousFilters?: CanonicalSearchFilters): string {
+  const normalizedQuery = query
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s.!?]+$/, '')
+    .trim();
+
+  const normalizedFilters = Object.entries(previousFilters ?? {})
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [key, Array.isArray(value) ? [...value].sort() : value])
+    .sort(([a], [b]) => String(a).localeCompare(String(b)));
+
+  const providers = LLM_PROVIDERS.map(provider => `${provider.name}:${provider.model}`);
+
+  return JSON.stringify([normalizedQuery, normalizedFilters, providers]);
+}
@@ -0,0 +1,58 @@
+/**
+ * Extraction Validator
+ *
+ * Cleans filters returned by any extractor (LLM provider or keyword
+ * fallback) against the canonical filter schema before they're used.
+ */
+
+import type { FilterCoercion, LLMFilterExtractionResponse } from '@/types/search';
+import { createLogger } from './logger';
+import { normalizeAmbiguities } from './ambiguity';
+import { coerceFilters, resolveFilterKey } from './filter-schema';
+
+const log = createLogger('extraction-validator');
+
+/**
+ * Validate and clean extracted filters (see coerceFilters); every change is
+ * reported in metadata.coercions. Ambiguities are cleaned too - see
+ * normalizeAmbiguities.
+ */
+export function validateExtractedFilters(response: LLMFilterExtractionResponse, originalQuery: string): LLMFilterExtractionResponse {
+  const rawServiceTypes = response.filters?.service_types;
+  const { filters, coercions } = coerceFilters(response.filters);
+
+  // If no service types remain after filtering, preserve original query as keywords
+  if (rawServiceTypes !== undefined && !filters.service_types && originalQuery) {
+    log.info('No valid service types extracted, preserving original query as keywords');
+    filters.keywords = originalQuery;
+  }
+
+  if (response.delta) {
+    response.delta = {
+      set: filters,
+      remove: cleanRemovedKeys(response.delta.remove, coercions),
+    };
+  }
+
+  if (coercions.length > 0) {
+    log.warn('Coerced extracted filters', {
+      provider: response.metadata?.provider,
+      coercions: coercions.map(({ field, action }) => `${field}:${action}`),
+    });
+  }
+
+  response.filters = filters;
+  response.metadata = { ...response.metadata, coercions };
+  response.ambiguities = normalizeAmbiguities(response);
+
+  return response;
+}
+
+function cleanRemovedKeys(keys: unknown[], coercions: FilterCoercion[]) {
+  const resolved = keys.map(key => {
+    const field = typeof key === 'string' ? resolveFilterKey(key) : undefined;
+    if (!field) coercions.push({ field: String(key), action: 'dropped_key', from: key });
+    return field;
+  });
+  return [...new Set(resolved.filter((key): key is NonNullable<typeof key> => Boolean(key)))];
+}
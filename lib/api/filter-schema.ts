@@ -0,0 +1,465 @@
+/**
+ * CanonicalSearchFilters Schema
+ *
+ * Runtime schema for every filter field, with the canonical vocabulary and
+ * alias tables for each enumerated field. `coerceFilters` turns whatever an
+ * extractor produced into valid CanonicalSearchFilters and reports each
+ * change it made, so prompt problems show up in the response instead of
+ * being patched silently downstream.
+ */
+
+import type { CanonicalSearchFilters, FilterCoercion } from '@/types/search';
+
+type FilterKey = keyof CanonicalSearchFilters;
+
+/**
+ * Valid canonical service type codes from backend
+ * Source: backend/vocabularies/canonical_codes.py
+ */
+export const VALID_SERVICE_TYPES = new Set([
+  // Crisis services
+  'crisis_line', 'crisis_text', 'crisis_chat', 'crisis_mobile',
+  'crisis_walk_in', 'crisis_stabilization', 'suicide_prevention',
+  // Inpatient
+  'inpatient_psychiatric', 'inpatient_dual_diagnosis',
+  'residential_long_term', 'residential_short_term', 'partial_hospitalization',
+  // Outpatient
+  'outpatient_therapy', 'intensive_outpatient', 'medication_management',
+  'telehealth_therapy', 'case_management', 'peer_support',
+  // Substance use
+  'detox', 'detox_social', 'sud_inpatient', 'sud_outpatient',
+  'mat', 'recovery_support', 'harm_reduction',
+  // Support groups
+  'support_group_general', 'support_group_aa', 'support_group_na',
+  'support_group_smart', 'support_group_family', 'support_group_grief',
+  // SDOH
+  'housing', 'food', 'transportation', 'legal', 'employment',
+  'healthcare', 'education', 'financial',
+]);
+
+/**
+ * Mapping for common LLM mistakes to correct canonical codes
+ */
+export const SERVICE_TYPE_ALIASES: Record<string, string> = {
+  'crisis_hotline': 'crisis_line',
+  'hotline': 'crisis_line',
+  'emergency_services': 'crisis_line',
+  'emergency': 'crisis_line',
+  '988': 'crisis_line',
+  'suicide_hotline': 'suicide_prevention',
+  'mental_health': 'outpatient_therapy',
+  'therapy': 'outpatient_therapy',
+  'counseling': 'outpatient_therapy',
+  'inpatient': 'inpatient_psychiatric',
+  'residential': 'residential_short_term',
+  'rehab': 'sud_inpatient',
+  'detoxification': 'detox',
+};
+
+export const CARE_PHASES = ['immediate_crisis', 'acute_support', 'recovery_support', 'maintenance'] as const;
+
+export const CARE_PHASE_ALIASES: Record<string, string> = {
+  'crisis': 'immediate_crisis',
+  'emergency': 'immediate_crisis',
+  'immediate': 'immediate_crisis',
+  'acute': 'acute_support',
+  'short_term': 'acute_support',
+  'recovery': 'recovery_support',
+  'stabilization': 'recovery_support',
+  'ongoing': 'maintenance',
+  'wellness': 'maintenance',
+  'prevention': 'maintenance',
+};
+
+export const AGE_GROUPS = ['child', 'teen', 'adult', 'senior'] as const;
+
+export const AGE_GROUP_ALIASES: Record<string, string> = {
+  'children': 'child',
+  'kid': 'child',
+  'kids': 'child',
+  'adolescent': 'teen',
+  'adolescents': 'teen',
+  'teens': 'teen',
+  'teenager': 'teen',
+  'teenagers': 'teen',
+  'youth': 'teen',
+  'adults': 'adult',
+  'young_adult': 'adult',
+  'young_adults': 'adult',
+  'older_adult': 'senior',
+  'older_adults': 'senior',
+  'seniors': 'senior',
+  'elderly': 'senior',
+  'geriatric': 'senior',
+};
+
+export const GENDERS = ['male', 'female'] as const;
+
+export const GENDER_ALIASES: Record<string, string> = {
+  'men': 'male',
+  'man': 'male',
+  'males': 'male',
+  'boys': 'male',
+  'women': 'female',
+  'woman': 'female',
+  'females': 'female',
+  'girls': 'female',
+};
+
+export const INSURANCE_TYPES = ['medicaid', 'medicare', 'private', 'uninsured', 'sliding_scale'] as const;
+
+export const INSURANCE_ALIASES: Record<string, string> = {
+  'health_first_colorado': 'medicaid',
+  'hfc': 'medicaid',
+  'chp+': 'medicaid',
+  'chp_plus': 'medicaid',
+  'medi_cal': 'medicaid',
+  'commercial': 'private',
+  'private_insurance': 'private',
+  'employer': 'private',
+  'none': 'uninsured',
+  'no_insurance': 'uninsured',
+  'self_pay': 'uninsured',
+  'cash': 'uninsured',
+  'sliding_fee': 'sliding_scale',
+  'sliding': 'sliding_scale',
+};
+
+/**
+ * Language names mapped to the ISO 639-1 codes the backend filters on
+ * ("Spanish" → "es")
+ */
+export const LANGUAGE_NAME_TO_CODE: Record<string, string> = {
+  'english': 'en',
+  'spanish': 'es',
+  'espanol': 'es',
+  'español': 'es',
+  'vietnamese': 'vi',
+  'chinese': 'zh',
+  'mandarin': 'zh',
+  'cantonese': 'zh',
+  'korean': 'ko',
+  'arabic': 'ar',
+  'russian': 'ru',
+  'somali': 'so',
+  'amharic': 'am',
+  'french': 'fr',
+  'nepali': 'ne',
+  'portuguese': 'pt',
+  'german': 'de',
+  'tagalog': 'tl',
+  'hindi': 'hi',
+  'farsi': 'fa',
+  'persian': 'fa',
+  'swahili': 'sw',
+  'ukrainian': 'uk',
+};
+
+const TRAVEL_MODE_ALIASES: Record<string, string> = {
+  'drive': 'driving',
+  'car': 'driving',
+  'bus': 'transit',
+  'public_transit': 'transit',
+  'walk': 'walking',
+  'bike': 'bicycling',
+  'cycling': 'bicycling',
+};
+
+const SORT_FIELD_ALIASES: Record<string, string> = {
+  'nearest': 'distance',
+  'closest': 'distance',
+  'score': 'match_score',
+  'confidence': 'rcs',
+  'newest': 'last_verified',
+  'recently_verified': 'last_verified',
+};
+
+const SORT_ORDER_ALIASES: Record<string, string> = {
+  'ascending': 'asc',
+  'descending': 'desc',
+};
+
+/**
+ * Field names models use instead of the canonical ones
+ */
+const KEY_ALIASES: Record<string, FilterKey> = {
+  query: 'keywords',
+  keyword: 'keywords',
+  service_type: 'service_types',
+  services: 'service_types',
+  phase: 'care_phase',
+  distance: 'max_distance_miles',
+  max_distance: 'max_distance_miles',
+  distance_miles: 'max_distance_miles',
+  radius_miles: 'max_distance_miles',
+  insurance_type: 'insurance',
+  insurance_types: 'insurance',
+  language: 'languages',
+  age: 'age_groups',
+  age_group: 'age_groups',
+  gender: 'gender_specific',
+  crisis_services: 'has_crisis_services',
+  walk_ins: 'walk_ins_accepted',
+  walk_in: 'walk_ins_accepted',
+  telehealth: 'telehealth_available',
+  lgbtq: 'lgbtq_affirming',
+  wheelchair: 'wheelchair_accessible',
+  urgent_access_only: 'urgentAccessOnly',
+  accepting_new_patients: 'acceptingNewPatients',
+};
+
+/**
+ * Most results one search request may ask for
+ */
+export const MAX_SEARCH_LIMIT = 100;
+
+type FieldSpec =
+  | { kind: 'text' }
+  | { kind: 'boolean' }
+  | { kind: 'number'; min: number; max: number }
+  | { kind: 'enum'; values: readonly string[]; aliases?: Record<string, string> }
+  | { kind: 'enum_list'; values: readonly string[]; aliases?: Record<string, string> }
+  | { kind: 'language_list' }
+  | { kind: 'text_list' }
+  | { kind: 'location' };
+
+const BOOLEAN: FieldSpec = { kind: 'boolean' };
+
+/**
+ * Every CanonicalSearchFilters field (the Record type keeps this exhaustive)
+ */
+export const FILTER_SCHEMA: Record<FilterKey, FieldSpec> = {
+  keywords: { kind: 'text' },
+  service_types: { kind: 'enum_list', values: [...VALID_SERVICE_TYPES], aliases: SERVICE_TYPE_ALIASES },
+  care_phase: { kind: 'enum', values: CARE_PHASES, aliases: CARE_PHASE_ALIASES },
+  location: { kind: 'location' },
+  max_distance_miles: { kind: 'number', min: 0.1, max: 500 },
+  max_transit_time_min: { kind: 'number', min: 1, max: 600 },
+  travel_mode: { kind: 'enum', values: ['driving', 'transit', 'walking', 'bicycling'], aliases: TRAVEL_MODE_ALIASES },
+  insurance: { kind: 'enum_list', values: INSURANCE_TYPES, aliases: INSURANCE_ALIASES },
+  has_sliding_scale: BOOLEAN,
+  has_charity_care: BOOLEAN,
+  max_cost_per_session: { kind: 'number', min: 0, max: 10_000 },
+  has_transit: BOOLEAN,
+  has_parking: BOOLEAN,
+  has_ride_programs: BOOLEAN,
+  languages: { kind: 'language_list' },
+  lgbtq_affirming: BOOLEAN,
+  serves_undocumented: BOOLEAN,
+  serves_justice_involved: BOOLEAN,
+  age_groups: { kind: 'enum_list', values: AGE_GROUPS, aliases: AGE_GROUP_ALIASES },
+  gender_specific: { kind: 'enum', values: GENDERS, aliases: GENDER_ALIASES },
+  wheelchair_accessible: BOOLEAN,
+  telehealth_available: BOOLEAN,
+  min_accessibility_score: { kind: 'number', min: 0, max: 100 },
+  asl_interpretation: BOOLEAN,
+  accepting_patients: BOOLEAN,
+  acceptingNewPatients: BOOLEAN,
+  urgentAccessOnly: BOOLEAN,
+  has_crisis_services: BOOLEAN,
+  open_now: BOOLEAN,
+  available_within_hours: { kind: 'number', min: 0, max: 720 },
+  max_waitlist_days: { kind: 'number', min: 0, max: 365 },
+  min_rcs: { kind: 'number', min: 0, max: 1 },
+  verified_only: BOOLEAN,
+  verified_within_days: { kind: 'number', min: 1, max: 3650 },
+  evidence_based_practices: { kind: 'text_list' },
+  accreditations: { kind: 'text_list' },
+  treatment_modalities: { kind: 'text_list' },
+  walk_ins_accepted: BOOLEAN,
+  referral_required: BOOLEAN,
+  region: {
+    kind: 'enum',
+    values: ['denver-metro', 'colorado-springs', 'boulder', 'fort-collins', 'all'],
+  },
+  city: { kind: 'text' },
+  sort_by: {
+    kind: 'enum',
+    values: ['distance', 'transit_time', 'match_score', 'rcs', 'last_verified', 'relevance'],
+    aliases: SORT_FIELD_ALIASES,
+  },
+  sort_order: { kind: 'enum', values: ['asc', 'desc'], aliases: SORT_ORDER_ALIASES },
+  limit: { kind: 'number', min: 1, max: MAX_SEARCH_LIMIT },
+  offset: { kind: 'number', min: 0, max: 10_000 },
+};
+
+/**
+ * Lookup form for enum values and aliases: "Health First Colorado",
+ * "health-first-colorado" and "health_first_colorado" all match
+ */
+function normalizeToken(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+const enumLookups = new Map<FieldSpec, Map<string, string>>();
+
+function enumLookup(spec: Extract<FieldSpec, { values: readonly string[] }>): Map<string, string> {
+  let lookup = enumLookups.get(spec);
+  if (!lookup) {
+    lookup = new Map(spec.values.map(value => [normalizeToken(value), value]));
+    Object.entries(spec.aliases ?? {}).forEach(([alias, value]) => lookup!.set(normalizeToken(alias), value));
+    enumLookups.set(spec, lookup);
+  }
+  return lookup;
+}
+
+export function isFilterKey(key: string): key is FilterKey {
+  return Object.prototype.hasOwnProperty.call(FILTER_SCHEMA, key);
+}
+
+/**
+ * Resolve a possibly-aliased field name to a CanonicalSearchFilters key
+ */
+export function resolveFilterKey(key: string): FilterKey | undefined {
+  if (isFilterKey(key)) return key;
+  return KEY_ALIASES[normalizeToken(key)];
+}
+
+/**
+ * Coerce extractor output into valid CanonicalSearchFilters
+ */
+export function coerceFilters(raw: unknown): { filters: CanonicalSearchFilters; coercions: FilterCoercion[] } {
+  const filters: Record<string, unknown> = {};
+  const coercions: FilterCoercion[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    if (raw !== undefined && raw !== null) {
+      coercions.push({ field: 'filters', action: 'dropped_value', from: raw });
+    }
+    return { filters: {}, coercions };
+  }
+
+  Object.entries(raw as Record<string, unknown>).forEach(([rawKey, rawValue]) => {
+    const key = resolveFilterKey(rawKey);
+
+    if (!key) {
+      coercions.push({ field: rawKey, action: 'dropped_key', from: rawValue });
+      return;
+    }
+    if (key !== rawKey) {
+      coercions.push({ field: key, action: 'renamed_key', from: rawKey, to: key });
+    }
+    // Null means "not extracted" - nothing to report
+    if (rawValue === undefined || rawValue === null) return;
+
+    const value = coerceField(key, FILTER_SCHEMA[key], rawValue, coercions);
+    if (value !== undefined) filters[key] = value;
+  });
+
+  return { filters: filters as CanonicalSearchFilters, coercions };
+}
+
+function coerceField(field: FilterKey, spec: FieldSpec, value: unknown, coercions: FilterCoercion[]): unknown {
+  const drop = () => {
+    coercions.push({ field, action: 'dropped_value', from: value });
+    return undefined;
+  };
+
+  switch (spec.kind) {
+    case 'text': {
+      if (typeof value === 'string') return value.trim() || undefined;
+      if (typeof value === 'number') {
+        coercions.push({ field, action: 'converted', from: value, to: String(value) });
+        return String(value);
+      }
+      return drop();
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const token = typeof value === 'string' ? normalizeToken(value) : value;
+      const converted = token === 'true' || token === 'yes' || token === 1
+        ? true
+        : token === 'false' || token === 'no' || token === 0 ? false : undefined;
+      if (converted === undefined) return drop();
+      coercions.push({ field, action: 'converted', from: value, to: converted });
+      return converted;
+    }
+
+    case 'number': {
+      let number = typeof value === 'number' ? value : NaN;
+      if (typeof value === 'string') {
+        // "5 miles", "within 10"
+        const match = value.match(/-?\d+(\.\d+)?/);
+        number = match ? Number(match[0]) : NaN;
+      }
+      if (!Number.isFinite(number) || number < spec.min || number > spec.max) return drop();
+      if (number !== value) coercions.push({ field, action: 'converted', from: value, to: number });
+      return number;
+    }
+
+    case 'enum': {
+      const resolved = typeof value === 'string' ? resolveEnum(field, spec, value, coercions) : undefined;
+      return resolved ?? drop();
+    }
+
+    case 'enum_list': {
+      const resolved = toList(field, value, coercions)
+        .map(item => {
+          const match = resolveEnum(field, spec, item, coercions);
+          if (!match) coercions.push({ field, action: 'dropped_value', from: item });
+          return match;
+        })
+        .filter((item): item is string => Boolean(item));
+      return resolved.length > 0 ? [...new Set(resolved)] : undefined;
+    }
+
+    case 'language_list': {
+      const resolved = toList(field, value, coercions).map(item => {
+        const token = item.trim().toLowerCase();
+        if (/^[a-z]{2}$/.test(token)) return token;
+        const code = LANGUAGE_NAME_TO_CODE[token];
+        if (code) {
+          coercions.push({ field, action: 'aliased', from: item, to: code });
+          return code;
+        }
+        // Unmapped names are kept - the search route's post-filter enforces them
+        return item.trim();
+      }).filter(Boolean);
+      return resolved.length > 0 ? [...new Set(resolved)] : undefined;
+    }
+
+    case 'text_list': {
+      const resolved = toList(field, value, coercions).map(item => item.trim()).filter(Boolean);
+      return resolved.length > 0 ? [...new Set(resolved)] : undefined;
+    }
+
+    case 'location': {
+      const location = value as CanonicalSearchFilters['location'];
+      const coordinates = location?.coordinates;
+      const valid = typeof location === 'object'
+        && typeof location?.address === 'string'
+        && (!coordinates || (typeof coordinates.lat === 'number' && typeof coordinates.lon === 'number'));
+      return valid ? location : drop();
+    }
+  }
+}
+
+function resolveEnum(
+  field: FilterKey,
+  spec: Extract<FieldSpec, { values: readonly string[] }>,
+  value: string,
+  coercions: FilterCoercion[]
+): string | undefined {
+  const match = enumLookup(spec).get(normalizeToken(value));
+  if (match && match !== value) {
+    coercions.push({ field, action: 'aliased', from: value, to: match });
+  }
+  return match;
+}
+
+/**
+ * List fields also accept a single value or a comma-separated string
+ */
+function toList(field: FilterKey, value: unknown, coercions: FilterCoercion[]): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string | number => typeof item === 'string' || typeof item === 'number').map(String);
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    const list = String(value).split(',').map(item => item.trim()).filter(Boolean);
+    coercions.push({ field, action: 'converted', from: value, to: list });
+    return list;
+  }
+  coercions.push({ field, action: 'dropped_value', from: value });
+  return [];
+}
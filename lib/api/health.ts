@@ -0,0 +1,135 @@
+/**
+ * Deep Health Check
+ *
+ * Probes the components the portal depends on and reports structured status:
+ * - FastAPI backend reachability, latency, circuit breaker state and
+ *   response contract drift (missing-field counters)
+ * - LLM providers (configured, enabled + reachable)
+ * - Clerk authentication configuration
+ * - Build version
+ *
+ * Results are cached briefly so monitors can't turn health checks into a
+ * flood of upstream calls. The report names upstream URLs and errors, so
+ * the route only serves it to admins and token-holding monitors.
+ */
+
+import packageJson from '@/package.json';
+import { BackendClient } from './backend-client';
+import { probeLLMProviders, type LLMProviderHealth } from './llm-fallback';
+import { createCache } from './cache';
+import { getContractStats } from './backend-schema';
+
+export type ComponentStatus = 'ok' | 'degraded' | 'down';
+
+export interface DeepHealthReport {
+  status: ComponentStatus;
+  timestamp: string;
+  service: string;
+  version: {
+    app: string;
+    commit: string | null;
+    node: string;
+  };
+  components: {
+    backend: {
+      status: ComponentStatus;
+      url: string;
+      reachable: boolean;
+      latency_ms: number;
+      status_code?: number;
+      error?: string;
+      circuits: ReturnType<typeof BackendClient.getCircuitStates>;
+      contract: ReturnType<typeof getContractStats>;
+    };
+    llm: {
+      status: ComponentStatus;
+      providers: LLMProviderHealth[];
+    };
+    auth: {
+      status: ComponentStatus;
+      provider: 'clerk';
+      publishable_key_configured: boolean;
+      secret_key_configured: boolean;
+      mode: 'test' | 'live' | 'unknown';
+    };
+  };
+}
+
+const DEEP_HEALTH_CACHE_MS = 15_000;
+
+const healthCache = createCache<DeepHealthReport>({
+  ttlMs: DEEP_HEALTH_CACHE_MS,
+  staleMs: 0,
+  maxEntries: 1,
+  name: 'Health',
+});
+
+/**
+ * Run (or return the recently cached) deep health check
+ */
+export async function getDeepHealthReport(): Promise<DeepHealthReport> {
+  const { value } = await healthCache.get('deep', runDeepHealthCheck);
+  return value;
+}
+
+async function runDeepHealthCheck(): Promise<DeepHealthReport> {
+  const [backendProbe, providers] = await Promise.all([
+    BackendClient.probe(),
+    probeLLMProviders(),
+  ]);
+
+  const circuits = BackendClient.getCircuitStates();
+  const anyCircuitOpen = Object.values(circuits).some(c => c.state !== 'closed');
+
+  const backendStatus: ComponentStatus = !backendProbe.reachable
+    ? 'down'
+    : anyCircuitOpen ? 'degraded' : 'ok';
+
+  // LLM extraction has a keyword fallback, so missing providers degrade but never take us down
+  const configured = providers.filter(p => p.configured && p.enabled);
+  const reachable = configured.filter(p => p.reachable);
+  const llmStatus: ComponentStatus =
+    configured.length > 0 && reachable.length === configured.length ? 'ok' : 'degraded';
+
+  const publishableKey = process.env.NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY || '';
+  const secretKey = process.env.CLERK_SECRET_KEY || '';
+  const authStatus: ComponentStatus = publishableKey && secretKey ? 'ok' : 'down';
+
+  const statuses = [backendStatus, llmStatus, authStatus];
+  const status: ComponentStatus = statuses.includes('down')
+    ? 'down'
+    : statuses.includes('degraded') ? 'degraded' : 'ok';
+
+  return {
+    status,
+    timestamp: new Date().toISOString(),
+    service: 'commonlight-crisis-portal',
+    version: {
+      app: packageJson.version,
+      commit: process.env.RAILWAY_GIT_COMMIT_SHA || null,
+      node: process.version,
+    },
+    components: {
+      backend: {
+        status: backendStatus,
+        url: process.env.FASTAPI_URL || 'https://api.wearecommonlight.com',
+        ...backendProbe,
+        circuits,
+        contract: getContractStats(),
+      },
+      llm: {
+        status: llmStatus,
+        providers,
+      },
+      auth: {
+        status: authStatus,
+        provider: 'clerk',
+        publishable_key_configured: Boolean(publishableKey),
+        secret_key_configured: Boolean(secretKey),
+        mode: publishableKey.startsWith('pk_live_')
+          ? 'live'
+          : publishableKey.startsWith('pk_test_') ? 'test' : 'unknown',
+      },
+    },
+  };
+}
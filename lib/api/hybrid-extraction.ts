@@ -0,0 +1,155 @@
+/**
+ * Hybrid Extraction
+ *
+ * Merges the deterministic rule pre-pass (see keyword-extractor) with the
+ * LLM's filters. The LLM reads intent better, but it drops explicit
+ * constraints often enough ("within 10 miles" gone, "en" added to a Spanish
+ * request) that the rules are worth keeping alongside it.
+ *
+ * Per field:
+ * - only one extractor set it: keep that value
+ * - both agree: keep it, source 'both'
+ * - numbers and languages: the rules win - they only match explicit mentions
+ * - other lists: union of both
+ * - anything else: the LLM wins
+ * Values the query explicitly negates ("not inpatient") are removed from
+ * the LLM's lists too. Every disagreement goes to metadata.conflicts.
+ */
+
+import type {
+  CanonicalSearchFilters,
+  FilterConflict,
+  FilterSource,
+  LLMFilterExtractionResponse,
+} from '@/types/search';
+import { createLogger } from './logger';
+import { normalizeAmbiguities } from './ambiguity';
+import { FILTER_SCHEMA } from './filter-schema';
+import { getFilterLabel } from '@/lib/filter-labels';
+import type { RulePass } from './keyword-extractor';
+import type { ListField } from './rule-extractor';
+
+const log = createLogger('hybrid-extraction');
+
+type FilterKey = keyof CanonicalSearchFilters;
+type Provenance = NonNullable<LLMFilterExtractionResponse['provenance']>;
+
+/**
+ * Schema kinds where an explicit mention in the query beats the LLM
+ */
+function ruleWins(field: FilterKey): boolean {
+  const { kind } = FILTER_SCHEMA[field];
+  return kind === 'number' || kind === 'language_list';
+}
+
+/**
+ * Merge the rule pre-pass into a validated LLM response
+ */
+export function mergeWithRules(llm: LLMFilterExtractionResponse, rules: RulePass): LLMFilterExtractionResponse {
+  const merged: Record<string, unknown> = {};
+  const provenance: Provenance = {};
+  const conflicts: FilterConflict[] = [];
+
+  const fields = new Set([...Object.keys(llm.filters), ...Object.keys(rules.filters)] as FilterKey[]);
+
+  fields.forEach(field => {
+    const llmValue = llm.filters[field];
+    const ruleValue = rules.filters[field];
+
+    if (ruleValue === undefined) {
+      if (llmValue !== undefined) setField(field, llmValue, 'llm');
+      return;
+    }
+    if (llmValue === undefined) {
+      setField(field, ruleValue, 'rule');
+      return;
+    }
+    if (sameValue(llmValue, ruleValue)) {
+      setField(field, llmValue, 'both');
+      return;
+    }
+
+    if (ruleWins(field)) {
+      conflicts.push({ field, rule: ruleValue, llm: llmValue, winner: 'rule' });
+      setField(field, ruleValue, 'rule');
+    } else if (Array.isArray(llmValue) && Array.isArray(ruleValue)) {
+      setField(field, [...new Set([...llmValue, ...ruleValue])], 'both');
+    } else {
+      conflicts.push({ field, rule: ruleValue, llm: llmValue, winner: 'llm' });
+      setField(field, llmValue, 'llm');
+    }
+  });
+
+  // "not inpatient" - the query said no, whatever the LLM thought
+  (Object.entries(rules.excluded) as Array<[ListField, string[]]>).forEach(([field, values]) => {
+    const current = merged[field] as string[] | undefined;
+    if (!current?.some(value => values.includes(value))) return;
+
+    conflicts.push({ field, rule: { excluded: values }, llm: current, winner: 'rule' });
+    const remaining = current.filter(value => !values.includes(value));
+    if (remaining.length > 0) {
+      merged[field] = remaining;
+    } else {
+      delete merged[field];
+      delete provenance[field];
+    }
+  });
+
+  const filters = merged as CanonicalSearchFilters;
+  const response: LLMFilterExtractionResponse = {
+    ...llm,
+    filters,
+    provenance,
+    explanation: explainRuleAdditions(llm.explanation, provenance),
+    metadata: { ...llm.metadata, conflicts },
+  };
+
+  if (llm.delta) {
+    const remove = [...new Set([...llm.delta.remove, ...rules.remove])];
+    response.delta = { set: filters, remove: remove.filter(field => filters[field] === undefined) };
+  }
+  response.ambiguities = normalizeAmbiguities(response);
+
+  if (conflicts.length > 0) {
+    log.info('Resolved extraction conflicts', {
+      conflicts: conflicts.map(({ field, winner }) => `${field}:${winner}`),
+    });
+  }
+
+  return response;
+
+  function setField(field: FilterKey, value: unknown, source: FilterSource) {
+    merged[field] = value;
+    provenance[field] = source;
+  }
+}
+
+/**
+ * Provenance for a response that came from a single extractor
+ */
+export function withProvenance(response: LLMFilterExtractionResponse, source: FilterSource): LLMFilterExtractionResponse {
+  const provenance: Provenance = {};
+  (Object.keys(response.filters) as FilterKey[]).forEach(field => {
+    if (response.filters[field] !== undefined) provenance[field] = source;
+  });
+  return { ...response, provenance };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every(value => b.includes(value));
+  }
+  return a === b;
+}
+
+/**
+ * The LLM's explanation doesn't mention what only the rules found
+ */
+function explainRuleAdditions(explanation: string, provenance: Provenance): string {
+  const ruleOnly = (Object.keys(provenance) as FilterKey[])
+    .filter(field => provenance[field] === 'rule')
+    .map(field => getFilterLabel(field));
+
+  if (ruleOnly.length === 0) return explanation;
+  return `${explanation} Also applied from the query text: ${ruleOnly.join(', ')}.`;
+}
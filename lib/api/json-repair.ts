@@ -0,0 +1,110 @@
+/**
+ * Model Output JSON Repair
+ *
+ * Models asked for "ONLY the JSON object" still wrap it in code fences,
+ * add a sentence before or after it, or leave a trailing comma. A strict
+ * JSON.parse on that output throws and drops the request to the keyword
+ * fallback, so we repair the common cases first and report what we fixed.
+ */
+
+export type JsonRepair =
+  | 'stripped_code_fence'
+  | 'extracted_object'
+  | 'removed_trailing_commas'
+  | 'replaced_smart_quotes'
+  | 'converted_python_literals';
+
+export interface ParsedModelJson {
+  value: Record<string, unknown>;
+  /** Repairs that were needed; empty when the output was valid JSON */
+  repairs: JsonRepair[];
+}
+
+/**
+ * Parse a model's JSON object output, repairing it when needed.
+ * Throws when no JSON object can be recovered.
+ */
+export function parseModelJson(content: string): ParsedModelJson {
+  const repairs: JsonRepair[] = [];
+  let text = content.trim();
+
+  const direct = tryParseObject(text);
+  if (direct) return { value: direct, repairs };
+
+  const fenced = text.match(/```(?:json|JSON)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    text = fenced[1].trim();
+    repairs.push('stripped_code_fence');
+  }
+
+  const object = extractFirstObject(text);
+  if (object !== null && object !== text) {
+    text = object;
+    repairs.push('extracted_object');
+  }
+
+  if (/[“”]/.test(text)) {
+    text = text.replace(/[“”]/g, '"');
+    repairs.push('replaced_smart_quotes');
+  }
+
+  const withoutTrailingCommas = text.replace(/,(\s*[}\]])/g, '$1');
+  if (withoutTrailingCommas !== text) {
+    text = withoutTrailingCommas;
+    repairs.push('removed_trailing_commas');
+  }
+
+  const withJsonLiterals = text
+    .replace(/:\s*True\b/g, ': true')
+    .replace(/:\s*False\b/g, ': false')
+    .replace(/:\s*None\b/g, ': null');
+  if (withJsonLiterals !== text) {
+    text = withJsonLiterals;
+    repairs.push('converted_python_literals');
+  }
+
+  const repaired = tryParseObject(text);
+  if (!repaired) {
+    throw new Error('Model output is not a valid JSON object');
+  }
+  return { value: repaired, repairs };
+}
+
+function tryParseObject(text: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(text);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * First balanced {...} in the text, skipping braces inside strings
+ */
+function extractFirstObject(text: string): string | null {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') depth++;
+    else if (char === '}' && --depth === 0) return text.slice(start, i + 1);
+  }
+
+  // Truncated output - let the later repairs and the final parse decide
+  return text.slice(start);
+}
@@ -0,0 +1,133 @@
+/**
+ * Keyword Extractor
+ *
+ * Last-resort filter extraction with the deterministic phrase rules in
+ * rule-extractor, used when every LLM provider fails. Never throws and
+ * needs no network access.
+ */
+
+import type { CanonicalSearchFilters, FilterDelta, LLMFilterExtractionResponse } from '@/types/search';
+import { detectAmbiguities } from './ambiguity';
+import { explainMatches, extractWithRules, type ListField, type RuleExtraction } from './rule-extractor';
+
+/**
+ * Default radius when the query names no distance [bead v3n2]
+ */
+const DEFAULT_DISTANCE_MILES = 15;
+
+/**
+ * Follow-ups that add to a list instead of replacing it ("also Spanish")
+ */
+const ADDITIVE_PATTERN = /\b(also|too|as well|in addition)\b/i;
+
+/**
+ * Rule extraction for a query. For a follow-up the filters are the change
+ * to the previous filters and `remove` lists the fields it clears.
+ */
+export interface RulePass extends RuleExtraction {
+  remove: FilterDelta['remove'];
+}
+
+/**
+ * Run the phrase rules without any defaults - only what the query says.
+ * Also the deterministic pre-pass of hybrid extraction.
+ */
+export function extractRuleFilters(query: string, previousFilters?: CanonicalSearchFilters): RulePass {
+  const extraction = extractWithRules(query);
+  if (!previousFilters) return { ...extraction, remove: [] };
+
+  const delta = createFollowUpDelta(query, extraction, previousFilters);
+  return { ...extraction, filters: delta.set, remove: delta.remove };
+}
+
+/**
+ * Create rule-based filters as last resort.
+ * With previous filters (a follow-up in a conversation) only the filters
+ * the query mentions are returned, as a delta.
+ */
+export function createBasicFilters(
+  query: string,
+  previousFilters?: CanonicalSearchFilters
+): LLMFilterExtractionResponse {
+  const extraction = extractRuleFilters(query, previousFilters);
+  const matched = explainMatches(extraction.matches);
+
+  const explanationParts = [
+    previousFilters
+      ? `Refining the previous search with: "${query}".`
+      : `Searching for resources related to: "${query}".`,
+  ];
+  if (matched) explanationParts.push(`Matched: ${matched}.`);
+  explanationParts.push('(Using rule-based matching - LLM services unavailable)');
+
+  let filters: CanonicalSearchFilters;
+  let delta: FilterDelta | undefined;
+
+  if (previousFilters) {
+    delta = { set: extraction.filters, remove: extraction.remove };
+    filters = delta.set;
+  } else {
+    filters = {
+      keywords: query,
+      ...extraction.filters,
+      max_distance_miles: extraction.filters.max_distance_miles ?? DEFAULT_DISTANCE_MILES,
+    };
+  }
+
+  return {
+    originalQuery: query,
+    filters,
+    delta,
+    explanation: explanationParts.join(' '),
+    confidence: extraction.matches.length > 0 ? 0.5 : 0.3,
+    ambiguities: detectAmbiguities(query, previousFilters ? { ...previousFilters, ...filters } : filters),
+    metadata: {
+      provider: 'fallback',
+      model: 'rule-based',
+      // No model call
+      tokens: {
+        input: 0,
+        output: 0,
+      },
+    },
+  };
+}
+
+function createFollowUpDelta(
+  query: string,
+  extraction: RuleExtraction,
+  previousFilters: CanonicalSearchFilters
+): FilterDelta {
+  const set: Record<string, unknown> = {};
+  const remove: FilterDelta['remove'] = [];
+  const additive = ADDITIVE_PATTERN.test(query);
+
+  Object.entries(extraction.filters).forEach(([key, value]) => {
+    if (value === undefined) return;
+    const previous = previousFilters[key as keyof CanonicalSearchFilters];
+    set[key] = additive && Array.isArray(value) && Array.isArray(previous)
+      ? [...new Set([...previous, ...value])]
+      : value;
+  });
+
+  // "not inpatient" drops the value from the current list
+  (Object.entries(extraction.excluded) as Array<[ListField, string[]]>).forEach(([field, values]) => {
+    const current = (set[field] ?? previousFilters[field]) as string[] | undefined;
+    if (!current) return;
+
+    const remaining = current.filter(value => !values.includes(value));
+    if (remaining.length > 0) {
+      set[field] = remaining;
+    } else {
+      delete set[field];
+      remove.push(field);
+    }
+  });
+
+  // "closer than that" - halve the current radius
+  if (/\b(closer|nearer)\b/i.test(query) && previousFilters.max_distance_miles && set.max_distance_miles === undefined) {
+    set.max_distance_miles = Math.max(1, Math.round(previousFilters.max_distance_miles / 2));
+  }
+
+  return { set: set as CanonicalSearchFilters, remove };
+}
@@ -2,144 +2,136 @@
  * LLM Fallback Strategy
  *
  * If backend LLM extraction fails, fallback to direct LLM API calls.
- * Supports both OpenAI and Anthropic with automatic failover.
+ * Tries the providers from the registry (see llm-providers) in order.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import OpenAI from 'openai';
-import type { CanonicalSearchFilters, LLMFilterExtractionResponse } from '@/types/search';
+import type {
+  CanonicalSearchFilters,
+  FilterDelta,
+  LLMFilterExtractionRequest,
+  LLMFilterExtractionResponse,
+} from '@/types/search';
+import { createLogger } from './logger';
+import { parseModelJson } from './json-repair';
+import { llmUsage } from './llm-usage';
+import { ALL_LLM_PROVIDERS, LLM_LOCAL_ONLY, LLM_PROVIDERS, type LLMProvider, type ProviderCompletion } from './llm-providers';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
-
-interface LLMProvider {
-  name: string;
-  extract: (query: string, context?: any) => Promise<LLMFilterExtractionResponse>;
-}
+const log = createLogger('llm-fallback');
 
 /**
- * OpenAI Provider
+ * Request context plus the filters earlier turns of the conversation
+ * produced and the caller's organization (set by the route, never by the
+ * client)
  */
-const OpenAIProvider: LLMProvider = {
-  name: 'openai',
-  async extract(query: string, context?: any): Promise<LLMFilterExtractionResponse> {
-    if (!OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not configured');
-    }
-
-    const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-
-    const systemPrompt = buildSystemPrompt();
-    const userPrompt = buildUserPrompt(query, context);
-
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4-turbo-preview',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.3,
-    });
-
-    const content = response.choices[0].message.content;
-    if (!content) throw new Error('OpenAI returned empty response');
-
-    const parsed = JSON.parse(content);
-
-    return {
-      originalQuery: query,
-      filters: parsed.filters || {},
-      explanation: parsed.explanation || `Extracted filters from: "${query}"`,
-      confidence: parsed.confidence || 0.7,
-      metadata: {
-        provider: 'openai',
-        model: 'gpt-4-turbo-preview',
-        tokens: {
-          input: response.usage?.prompt_tokens || 0,
-          output: response.usage?.completion_tokens || 0,
-        },
-      },
-    };
-  },
+export type ExtractionContext = LLMFilterExtractionRequest['context'] & {
+  previous_filters?: CanonicalSearchFilters;
+  /** Clerk organization the tokens are billed to (see llm-usage) */
+  organization_id?: string;
 };
 
 /**
- * Anthropic Provider
+ * Run one provider and parse its output into an extraction response.
+ * `complete` can be swapped for recorded output (see eval/extraction).
  */
-const AnthropicProvider: LLMProvider = {
-  name: 'anthropic',
-  async extract(query: string, context?: any): Promise<LLMFilterExtractionResponse> {
-    if (!ANTHROPIC_API_KEY) {
-      throw new Error('ANTHROPIC_API_KEY not configured');
-    }
+export async function extractWithProvider(
+  provider: LLMProvider,
+  query: string,
+  context?: ExtractionContext,
+  complete: LLMProvider['complete'] = provider.complete.bind(provider)
+): Promise<LLMFilterExtractionResponse> {
+  const completion = await complete(buildSystemPrompt(), buildUserPrompt(query, context));
+  return parseProviderCompletion(provider, query, completion);
+}
 
-    const anthropic = new Anthropic({ apiKey: ANTHROPIC_API_KEY });
+/**
+ * Parse a provider's JSON output into an extraction response
+ */
+export function parseProviderCompletion(
+  provider: Pick<LLMProvider, 'name' | 'model'>,
+  query: string,
+  completion: ProviderCompletion
+): LLMFilterExtractionResponse {
+  const { value: parsed, repairs } = parseModelJson(completion.content);
+  const delta = parseDelta(parsed.delta);
 
-    const systemPrompt = buildSystemPrompt();
-    const userPrompt = buildUserPrompt(query, context);
+  if (repairs.length > 0) {
+    log.warn('Repaired model JSON output', { provider: provider.name, repairs });
+  }
 
-    const response = await anthropic.messages.create({
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 2048,
-      system: systemPrompt,
-      messages: [
-        { role: 'user', content: userPrompt },
-      ],
-      temperature: 0.3,
-    });
+  return {
+    originalQuery: query,
+    // Follow-ups answer with a delta; its `set` part is validated like filters
+    filters: (delta?.set || parsed.filters || {}) as CanonicalSearchFilters,
+    delta,
+    explanation: typeof parsed.explanation === 'string' ? parsed.explanation : `Extracted filters from: "${query}"`,
+    confidence: typeof parsed.confidence === 'number' ? parsed.confidence : 0.7,
+    ambiguities: parsed.ambiguities as LLMFilterExtractionResponse['ambiguities'],
+    metadata: {
+      provider: provider.name,
+      model: provider.model,
+      tokens: completion.tokens,
+      json_repairs: repairs.length > 0 ? repairs : undefined,
+    },
+  };
+}
 
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Anthropic returned non-text response');
-    }
+function parseDelta(raw: unknown): FilterDelta | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
 
-    const parsed = JSON.parse(content.text);
-
-    return {
-      originalQuery: query,
-      filters: parsed.filters || {},
-      explanation: parsed.explanation || `Extracted filters from: "${query}"`,
-      confidence: parsed.confidence || 0.7,
-      metadata: {
-        provider: 'anthropic',
-        model: 'claude-3-5-sonnet-20241022',
-        tokens: {
-          input: response.usage.input_tokens,
-          output: response.usage.output_tokens,
-        },
-      },
-    };
-  },
-};
+  const { set, remove } = raw as { set?: unknown; remove?: unknown };
+  return {
+    set: set && typeof set === 'object' ? (set as CanonicalSearchFilters) : {},
+    remove: Array.isArray(remove)
+      ? (remove.filter(key => typeof key === 'string') as FilterDelta['remove'])
+      : [],
+  };
+}
+
+/**
+ * Progress of extractFiltersWithFallback, one call per provider attempt
+ */
+export type ProviderAttemptListener = (event: {
+  provider: string;
+  /** 1-based, across all providers */
+  attempt: number;
+  status: 'started' | 'failed';
+}) => void;
 
 /**
  * Fallback orchestrator with provider priority
  */
 export async function extractFiltersWithFallback(
   query: string,
-  context?: any
+  context?: ExtractionContext,
+  onAttempt?: ProviderAttemptListener
 ): Promise<LLMFilterExtractionResponse> {
-  // Try providers in order: OpenAI → Anthropic
-  const providers = [OpenAIProvider, AnthropicProvider].filter(
-    p => (p.name === 'openai' && OPENAI_API_KEY) ||
-        (p.name === 'anthropic' && ANTHROPIC_API_KEY)
-  );
+  // Try providers in LLM_PROVIDER_ORDER
+  const providers = LLM_PROVIDERS.filter(p => p.configured);
 
   if (providers.length === 0) {
-    throw new Error('No LLM providers configured (missing API keys)');
+    throw new Error(LLM_LOCAL_ONLY
+      ? 'No local LLM providers configured (LLM_LOCAL_ONLY is set)'
+      : 'No LLM providers configured (missing API keys)');
   }
 
   let lastError: Error | null = null;
 
-  for (const provider of providers) {
+  for (const [index, provider] of providers.entries()) {
+    const attempt = index + 1;
     try {
-      console.log(`[LLM Fallback] Trying ${provider.name}...`);
-      const result = await provider.extract(query, context);
-      console.log(`[LLM Fallback] Success with ${provider.name}`);
+      log.info('Trying provider', { provider: provider.name });
+      onAttempt?.({ provider: provider.name, attempt, status: 'started' });
+      const result = await extractWithProvider(provider, query, context, async (systemPrompt, userPrompt) => {
+        const completion = await provider.complete(systemPrompt, userPrompt);
+        // Counted before parsing - unparseable output is billed too
+        llmUsage.recordCall(provider, completion.tokens, context?.organization_id);
+        return completion;
+      });
+      log.info('Provider succeeded', { provider: provider.name });
       return result;
     } catch (error) {
-      console.error(`[LLM Fallback] ${provider.name} failed:`, error);
+      log.error('Provider failed', { provider: provider.name, error });
+      onAttempt?.({ provider: provider.name, attempt, status: 'failed' });
       lastError = error instanceof Error ? error : new Error(String(error));
     }
   }
@@ -147,10 +139,52 @@ export async function extractFiltersWithFallback(
   throw lastError || new Error('All LLM providers failed');
 }
 
+export interface LLMProviderHealth {
+  name: string;
+  model: string;
+  configured: boolean;
+  /** In LLM_PROVIDER_ORDER (and local, when LLM_LOCAL_ONLY is set) */
+  enabled: boolean;
+  reachable: boolean | null;
+  latency_ms?: number;
+  error?: string;
+}
+
+/**
+ * Probe each provider with a cheap model-list call (no tokens spent).
+ * Unconfigured and disabled providers are reported but not contacted.
+ */
+export async function probeLLMProviders(): Promise<LLMProviderHealth[]> {
+  return Promise.all(ALL_LLM_PROVIDERS.map(async provider => {
+    const { name, model, configured } = provider;
+    const enabled = LLM_PROVIDERS.includes(provider);
+
+    if (!configured || !enabled) {
+      return { name, model, configured, enabled, reachable: null };
+    }
+
+    const startedAt = Date.now();
+    try {
+      await provider.probe();
+      return { name, model, configured, enabled, reachable: true, latency_ms: Date.now() - startedAt };
+    } catch (error) {
+      return {
+        name,
+        model,
+        configured,
+        enabled,
+        reachable: false,
+        latency_ms: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }));
+}
+
 /**
  * Build system prompt for filter extraction
  */
-function buildSystemPrompt(): string {
+export function buildSystemPrompt(): string {
   return `You are a filter extraction assistant for a mental health resource search system.
 
 Extract structured filters from natural language queries and return JSON in this EXACT format:
@@ -172,7 +206,15 @@ Extract structured filters from natural language queries and return JSON in this
     "telehealth_available": boolean (optional)
   },
   "explanation": "Brief explanation of what was extracted (1-2 sentences)",
-  "confidence": 0.0-1.0 (number)
+  "confidence": 0.0-1.0 (number),
+  "ambiguities": [
+    {
+      "field": "care_phase" | "age_groups" | "gender_specific" | "insurance" | "languages" | "service_types" | "telehealth_available" | "walk_ins_accepted",
+      "question": "Short question for the crisis worker",
+      "options": [{ "label": "Human label", "value": "filter value" }],
+      "is_critical": boolean
+    }
+  ] (optional)
 }
 
 Care Phase Definitions:
@@ -187,6 +229,29 @@ Service Type Examples:
 - "substance_use_treatment", "detox", "residential_treatment"
 - "case_management", "housing_assistance", "food_assistance"
 
+Ambiguities:
+- Add an ambiguity when a filter that matters is genuinely unclear, instead of guessing
+  (e.g. "help for my son": age and care phase are unknown)
+- Options use the same values as the filter field (2-5 options)
+- is_critical = true only if searching without the answer would likely return the wrong
+  kind of resource (e.g. child vs adult services); otherwise false
+- Never add an ambiguity for a field you extracted
+
+Follow-up Queries:
+- When the user prompt lists current filters, the query refines them
+  (e.g. "now only ones that take Medicaid", "closer than that", "not just walk-ins")
+- Return "delta" INSTEAD of "filters":
+  "delta": { "set": { ...only the filters this query adds or changes... }, "remove": ["filter names to clear"] }
+- For list fields in "set", return the complete new list
+- Resolve relative requests against the current value
+  (e.g. "closer than that" with max_distance_miles 15 -> 5)
+- Ambiguities must not ask about fields the current filters already answer
+
+Redacted Details:
+- Personal details in the query are replaced with placeholders:
+  [NAME], [DOB], [PHONE], [EMAIL], [ADDRESS], [SSN], [MRN]
+- Ignore them; never copy a placeholder into a filter value or keywords
+
 IMPORTANT:
 - Only extract filters that are explicitly mentioned or clearly implied
 - Set confidence < 0.7 if the query is ambiguous
@@ -197,8 +262,11 @@ IMPORTANT:
 /**
  * Build user prompt with query and context
  */
-function buildUserPrompt(query: string, context?: any): string {
-  let prompt = `Extract filters from this query: "${query}"`;
+export function buildUserPrompt(query: string, context?: ExtractionContext): string {
+  const previous = context?.previous_filters;
+  let prompt = previous && Object.keys(previous).length > 0
+    ? `Current filters: ${JSON.stringify(previous)}\n\nRefine them with this follow-up query: "${query}"`
+    : `Extract filters from this query: "${query}"`;
 
   if (context?.current_location) {
     prompt += `\n\nUser location: ${context.current_location.lat}, ${context.current_location.lon}`;
@@ -0,0 +1,309 @@
+/**
+ * LLM Provider Registry
+ *
+ * Every provider filter extraction can call, configured by environment:
+ *
+ *   LLM_PROVIDER_ORDER=openai,anthropic,openai-compatible   fallback order
+ *   LLM_TEMPERATURE=0.3 / LLM_TIMEOUT_MS=15000              defaults for all
+ *   <PREFIX>_MODEL / <PREFIX>_TEMPERATURE / <PREFIX>_TIMEOUT_MS   per provider
+ *   <PREFIX>_INPUT_COST_PER_MTOK / <PREFIX>_OUTPUT_COST_PER_MTOK  USD per
+ *     million tokens, for spend estimates (defaults: MODEL_PRICING)
+ *
+ * where PREFIX is OPENAI, ANTHROPIC or OPENAI_COMPATIBLE. The
+ * openai-compatible provider talks to any server implementing the OpenAI
+ * chat completions API (vLLM, Ollama, llama.cpp, ...) at
+ * OPENAI_COMPATIBLE_BASE_URL.
+ *
+ * LLM_LOCAL_ONLY=true restricts extraction to providers that run inside our
+ * network (the openai-compatible provider), so no query text is sent to a
+ * third party. Point OPENAI_COMPATIBLE_BASE_URL at a self-hosted server
+ * when using it.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+import { createLogger } from './logger';
+
+const log = createLogger('llm-providers');
+
+/**
+ * Numeric env var; unlike `Number(x) || fallback` an explicit 0 is kept
+ */
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = Number(raw);
+  return raw && Number.isFinite(value) ? value : fallback;
+}
+
+const DEFAULT_ORDER = ['openai', 'anthropic', 'openai-compatible'];
+const DEFAULT_TEMPERATURE = readNumber('LLM_TEMPERATURE', 0.3);
+const DEFAULT_TIMEOUT_MS = readNumber('LLM_TIMEOUT_MS', 15_000);
+
+export const LLM_LOCAL_ONLY = process.env.LLM_LOCAL_ONLY === 'true';
+
+/**
+ * Raw model output, before parsing into filters
+ */
+export interface ProviderCompletion {
+  content: string;
+  tokens: {
+    input: number;
+    output: number;
+  };
+}
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPricing {
+  inputPerMTok: number;
+  outputPerMTok: number;
+}
+
+export interface LLMProviderConfig {
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+  /** Null when the model's price is unknown (spend is not estimated) */
+  pricing: ModelPricing | null;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  pricing: ModelPricing | null;
+  configured: boolean;
+  /** Runs inside our network, so query text never leaves it */
+  local: boolean;
+  /** Send the prompts to the model and return its raw text output */
+  complete: (systemPrompt: string, userPrompt: string) => Promise<ProviderCompletion>;
+  /** Cheap reachability check that spends no tokens */
+  probe: () => Promise<unknown>;
+}
+
+interface ProviderDefinition {
+  /** Environment variable prefix for model / temperature / timeout */
+  envPrefix: string;
+  defaultModel: string;
+  /** Price for models missing from MODEL_PRICING (self-hosted models cost nothing per token) */
+  defaultPricing?: ModelPricing;
+  create: (config: LLMProviderConfig) => LLMProvider;
+}
+
+/**
+ * OpenAI Provider
+ */
+function createOpenAIProvider(config: LLMProviderConfig): LLMProvider {
+  const apiKey = process.env.OPENAI_API_KEY;
+  const client = () => new OpenAI({ apiKey, timeout: config.timeoutMs, maxRetries: 0 });
+
+  return {
+    name: 'openai',
+    model: config.model,
+    pricing: config.pricing,
+    configured: Boolean(apiKey),
+    local: false,
+    async complete(systemPrompt, userPrompt) {
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY not configured');
+      }
+      return completeChat(client(), config, systemPrompt, userPrompt, true);
+    },
+    probe: () => client().models.list(),
+  };
+}
+
+/**
+ * Anthropic Provider
+ */
+function createAnthropicProvider(config: LLMProviderConfig): LLMProvider {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  const client = () => new Anthropic({ apiKey, timeout: config.timeoutMs, maxRetries: 0 });
+
+  return {
+    name: 'anthropic',
+    model: config.model,
+    pricing: config.pricing,
+    configured: Boolean(apiKey),
+    local: false,
+    async complete(systemPrompt, userPrompt) {
+      if (!apiKey) {
+        throw new Error('ANTHROPIC_API_KEY not configured');
+      }
+
+      const response = await client().messages.create({
+        model: config.model,
+        max_tokens: 2048,
+        system: systemPrompt,
+        messages: [
+          { role: 'user', content: userPrompt },
+        ],
+        temperature: config.temperature,
+      });
+
+      const content = response.content[0];
+      if (content.type !== 'text') {
+        throw new Error('Anthropic returned non-text response');
+      }
+
+      return {
+        content: content.text,
+        tokens: {
+          input: response.usage.input_tokens,
+          output: response.usage.output_tokens,
+        },
+      };
+    },
+    probe: () => client().models.list({ limit: 1 }),
+  };
+}
+
+/**
+ * OpenAI-compatible Provider (self-hosted model servers)
+ *
+ * OPENAI_COMPATIBLE_API_KEY is optional - most self-hosted servers ignore it.
+ * Set OPENAI_COMPATIBLE_JSON_MODE=false for servers without response_format.
+ */
+function createOpenAICompatibleProvider(config: LLMProviderConfig): LLMProvider {
+  const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  const jsonMode = process.env.OPENAI_COMPATIBLE_JSON_MODE !== 'false';
+  const client = () => new OpenAI({
+    baseURL,
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+    timeout: config.timeoutMs,
+    maxRetries: 0,
+  });
+
+  return {
+    name: 'openai-compatible',
+    model: config.model,
+    pricing: config.pricing,
+    configured: Boolean(baseURL && config.model),
+    local: true,
+    async complete(systemPrompt, userPrompt) {
+      if (!baseURL || !config.model) {
+        throw new Error('OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODEL not configured');
+      }
+      return completeChat(client(), config, systemPrompt, userPrompt, jsonMode);
+    },
+    probe: () => client().models.list(),
+  };
+}
+
+async function completeChat(
+  client: OpenAI,
+  config: LLMProviderConfig,
+  systemPrompt: string,
+  userPrompt: string,
+  jsonMode: boolean
+): Promise<ProviderCompletion> {
+  const response = await client.chat.completions.create({
+    model: config.model,
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ],
+    ...(jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+    temperature: config.temperature,
+  });
+
+  const content = response.choices[0]?.message.content;
+  if (!content) throw new Error('Model returned empty response');
+
+  return {
+    content,
+    tokens: {
+      input: response.usage?.prompt_tokens || 0,
+      output: response.usage?.completion_tokens || 0,
+    },
+  };
+}
+
+/**
+ * Known providers by name (the names LLM_PROVIDER_ORDER uses)
+ */
+const PROVIDER_DEFINITIONS: Record<string, ProviderDefinition> = {
+  openai: {
+    envPrefix: 'OPENAI',
+    defaultModel: 'gpt-4-turbo-preview',
+    create: createOpenAIProvider,
+  },
+  anthropic: {
+    envPrefix: 'ANTHROPIC',
+    defaultModel: 'claude-3-5-sonnet-20241022',
+    create: createAnthropicProvider,
+  },
+  'openai-compatible': {
+    envPrefix: 'OPENAI_COMPATIBLE',
+    defaultModel: '',
+    defaultPricing: { inputPerMTok: 0, outputPerMTok: 0 },
+    create: createOpenAICompatibleProvider,
+  },
+};
+
+/**
+ * List prices (USD per million tokens) by model name prefix; the longest
+ * matching prefix wins, so dated snapshots share their family's price
+ */
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4-turbo': { inputPerMTok: 10, outputPerMTok: 30 },
+  'gpt-4o': { inputPerMTok: 2.5, outputPerMTok: 10 },
+  'gpt-4o-mini': { inputPerMTok: 0.15, outputPerMTok: 0.6 },
+  'gpt-4.1': { inputPerMTok: 2, outputPerMTok: 8 },
+  'gpt-4.1-mini': { inputPerMTok: 0.4, outputPerMTok: 1.6 },
+  'claude-3-5-sonnet': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-3-5-haiku': { inputPerMTok: 0.8, outputPerMTok: 4 },
+  'claude-3-7-sonnet': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-sonnet-4': { inputPerMTok: 3, outputPerMTok: 15 },
+};
+
+function readPricing(envPrefix: string, model: string, defaultPricing?: ModelPricing): ModelPricing | null {
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  const known = prefix ? MODEL_PRICING[prefix] : defaultPricing;
+
+  const input = readNumber(`${envPrefix}_INPUT_COST_PER_MTOK`, known?.inputPerMTok ?? NaN);
+  const output = readNumber(`${envPrefix}_OUTPUT_COST_PER_MTOK`, known?.outputPerMTok ?? NaN);
+  return Number.isNaN(input) || Number.isNaN(output) ? null : { inputPerMTok: input, outputPerMTok: output };
+}
+
+function readConfig({ envPrefix, defaultModel, defaultPricing }: ProviderDefinition): LLMProviderConfig {
+  const model = process.env[`${envPrefix}_MODEL`] || defaultModel;
+  return {
+    model,
+    temperature: readNumber(`${envPrefix}_TEMPERATURE`, DEFAULT_TEMPERATURE),
+    timeoutMs: readNumber(`${envPrefix}_TIMEOUT_MS`, DEFAULT_TIMEOUT_MS),
+    pricing: readPricing(envPrefix, model, defaultPricing),
+  };
+}
+
+function parseOrder(): string[] {
+  const raw = process.env.LLM_PROVIDER_ORDER;
+  if (!raw) return DEFAULT_ORDER;
+
+  const names = raw.split(',').map(name => name.trim()).filter(Boolean);
+  const unknown = names.filter(name => !PROVIDER_DEFINITIONS[name]);
+  if (unknown.length > 0) {
+    log.warn('Ignoring unknown providers in LLM_PROVIDER_ORDER', {
+      providers: unknown,
+      known: Object.keys(PROVIDER_DEFINITIONS),
+    });
+  }
+
+  return [...new Set(names.filter(name => PROVIDER_DEFINITIONS[name]))];
+}
+
+/**
+ * Every known provider, configured or not (eval replays all of them)
+ */
+export const ALL_LLM_PROVIDERS: LLMProvider[] = Object.values(PROVIDER_DEFINITIONS)
+  .map(definition => definition.create(readConfig(definition)));
+
+/**
+ * Providers extraction may use, in fallback order: listed in
+ * LLM_PROVIDER_ORDER and, with LLM_LOCAL_ONLY, running inside our network
+ */
+export const LLM_PROVIDERS: LLMProvider[] = parseOrder()
+  .map(name => ALL_LLM_PROVIDERS.find(provider => provider.name === name)!)
+  .filter(provider => !LLM_LOCAL_ONLY || provider.local);
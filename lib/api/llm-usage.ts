@@ -0,0 +1,129 @@
+/**
+ * LLM Usage Accounting
+ *
+ * Token counts and estimated spend per day, organization, provider and
+ * model, so LLM cost can be budgeted per organization. Every provider call
+ * is counted - including ones whose output failed to parse, since those
+ * tokens are billed too - and extraction cache hits are counted as calls
+ * saved.
+ *
+ * The extraction cache is shared across organizations, so an
+ * organization's cache_hits can include queries another organization paid
+ * for first; those tokens stay on the first organization's rows.
+ *
+ * State lives in module memory, so each server instance keeps its own
+ * counters (same trade-off as the search cache); they reset on restart.
+ */
+
+import type { LLMProvider, ModelPricing } from './llm-providers';
+
+const LLM_USAGE_RETENTION_DAYS = Number(process.env.LLM_USAGE_RETENTION_DAYS) || 31;
+
+/**
+ * Organization key for requests made outside any Clerk organization
+ */
+export const PERSONAL_ORGANIZATION = 'personal';
+
+export interface UsageRow {
+  /** UTC day, YYYY-MM-DD */
+  date: string;
+  organization: string;
+  provider: string;
+  model: string;
+  /** Provider calls made */
+  requests: number;
+  /** Extractions answered from the cache instead (the cache is shared across organizations) */
+  cache_hits: number;
+  input_tokens: number;
+  output_tokens: number;
+  /** Null when the model's price is unknown */
+  estimated_cost_usd: number | null;
+}
+
+export interface UsageFilter {
+  organization?: string;
+  /** Inclusive YYYY-MM-DD bounds */
+  from?: string;
+  to?: string;
+}
+
+export interface UsageLedger {
+  /** One provider call and the tokens it used */
+  recordCall(provider: Pick<LLMProvider, 'name' | 'model' | 'pricing'>, tokens: { input: number; output: number }, organization?: string): void;
+  /** An extraction served from the cache (no tokens spent) */
+  recordCacheHit(provider: string, model: string, organization?: string): void;
+  rows(filter?: UsageFilter): UsageRow[];
+}
+
+export function estimateCost(pricing: ModelPricing | null, tokens: { input: number; output: number }): number | null {
+  if (!pricing) return null;
+  return (tokens.input * pricing.inputPerMTok + tokens.output * pricing.outputPerMTok) / 1_000_000;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Create a usage ledger keeping `retentionDays` days of rows
+ */
+export function createUsageLedger(retentionDays = LLM_USAGE_RETENTION_DAYS): UsageLedger {
+  const rows = new Map<string, UsageRow>();
+
+  const rowFor = (provider: string, model: string, organization = PERSONAL_ORGANIZATION): UsageRow => {
+    const date = today();
+    const key = JSON.stringify([date, organization, provider, model]);
+    let row = rows.get(key);
+
+    if (!row) {
+      prune(date);
+      row = {
+        date, organization, provider, model,
+        requests: 0, cache_hits: 0, input_tokens: 0, output_tokens: 0, estimated_cost_usd: 0,
+      };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  const prune = (date: string) => {
+    const cutoff = new Date(Date.parse(date) - (retentionDays - 1) * 86_400_000).toISOString().slice(0, 10);
+    for (const [key, row] of rows) {
+      if (row.date < cutoff) rows.delete(key);
+    }
+  };
+
+  return {
+    recordCall(provider, tokens, organization) {
+      const row = rowFor(provider.name, provider.model, organization);
+      const cost = estimateCost(provider.pricing, tokens);
+
+      row.requests++;
+      row.input_tokens += tokens.input;
+      row.output_tokens += tokens.output;
+      row.estimated_cost_usd = cost === null || row.estimated_cost_usd === null
+        ? null
+        : row.estimated_cost_usd + cost;
+    },
+
+    recordCacheHit(provider, model, organization) {
+      rowFor(provider, model, organization).cache_hits++;
+    },
+
+    rows(filter = {}) {
+      return [...rows.values()]
+        .filter(row =>
+          (!filter.organization || row.organization === filter.organization) &&
+          (!filter.from || row.date >= filter.from) &&
+          (!filter.to || row.date <= filter.to))
+        .map(row => ({ ...row }))
+        .sort((a, b) =>
+          a.date.localeCompare(b.date) ||
+          a.organization.localeCompare(b.organization) ||
+          a.provider.localeCompare(b.provider) ||
+          a.model.localeCompare(b.model));
+    },
+  };
+}
+
+export const llmUsage = createUsageLedger();
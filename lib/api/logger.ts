@@ -0,0 +1,205 @@
+/**
+ * Structured Logging
+ *
+ * Emits one JSON line per event with level, scope, route, duration and the
+ * request's correlation id. The correlation id is taken from the incoming
+ * X-Correlation-ID header (or generated), sent on to the FastAPI backend,
+ * and echoed on the response so a search can be traced end to end.
+ *
+ * Crisis queries and caller coordinates are sensitive, so they are redacted
+ * by default:
+ *   LOG_REDACT_QUERY=false        - log free-text queries, with personal
+ *                                   details replaced (see pii-redaction)
+ *   LOG_REDACT_COORDINATES=false  - log coordinates as-is
+ *   LOG_LEVEL=debug|info|warn|error (default: info)
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { redactPII } from './pii-redaction';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+interface RequestContext {
+  correlationId: string;
+  route: string;
+  startedAt: number;
+}
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-ID';
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const MIN_LEVEL: LogLevel = (Object.keys(LEVEL_RANK) as LogLevel[]).includes(process.env.LOG_LEVEL as LogLevel)
+  ? (process.env.LOG_LEVEL as LogLevel)
+  : 'info';
+
+const REDACT_QUERY = process.env.LOG_REDACT_QUERY !== 'false';
+const REDACT_COORDINATES = process.env.LOG_REDACT_COORDINATES !== 'false';
+
+/**
+ * Field names holding free-text queries
+ */
+const QUERY_KEYS = new Set(['query', 'keywords', 'refined_query', 'original_query', 'q']);
+
+/**
+ * Field names holding coordinates ("lat,lon" strings, numbers or objects)
+ */
+const COORDINATE_KEYS = new Set([
+  'location', 'coordinates', 'current_location', 'lat', 'lon', 'lng', 'latitude', 'longitude',
+  // Flattened search URL params (see lib/filter-url)
+  'location.address', 'location.lat', 'location.lon', 'location.postal_code',
+]);
+
+const MAX_DEPTH = 6;
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Correlation id of the request being handled (undefined outside a request)
+ */
+export function getCorrelationId(): string | undefined {
+  return requestContext.getStore()?.correlationId;
+}
+
+/**
+ * Milliseconds since the current request started (undefined outside a request)
+ */
+export function getRequestDuration(): number | undefined {
+  const context = requestContext.getStore();
+  return context ? Date.now() - context.startedAt : undefined;
+}
+
+/**
+ * Redact sensitive fields and make errors serializable
+ */
+export function redact(value: unknown, key?: string, depth = 0): unknown {
+  if (value === undefined || value === null) return value;
+
+  if (key && QUERY_KEYS.has(key) && typeof value === 'string') {
+    return REDACT_QUERY ? `[redacted ${value.length} chars]` : redactPII(value).text;
+  }
+  if (key && REDACT_COORDINATES && COORDINATE_KEYS.has(key)) {
+    return '[redacted]';
+  }
+
+  if (value instanceof Error) {
+    const error = value as Error & { statusCode?: number };
+    return {
+      name: error.name,
+      message: error.message,
+      status_code: error.statusCode,
+    };
+  }
+
+  if (depth >= MAX_DEPTH) return '[truncated]';
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, undefined, depth + 1));
+  }
+
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, redact(v, k, depth + 1)])
+    );
+  }
+
+  return value;
+}
+
+function emit(level: LogLevel, scope: string, message: string, fields?: LogFields) {
+  if (LEVEL_RANK[level] < LEVEL_RANK[MIN_LEVEL]) return;
+
+  const context = requestContext.getStore();
+  const line = JSON.stringify({
+    ts: new Date().toISOString(),
+    level,
+    scope,
+    msg: message,
+    route: context?.route,
+    correlation_id: context?.correlationId,
+    ...(redact(fields ?? {}) as LogFields),
+  });
+
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Create a logger for a module ("backend-client", "resources.search", ...)
+ */
+export function createLogger(scope: string): Logger {
+  return {
+    debug: (message, fields) => emit('debug', scope, message, fields),
+    info: (message, fields) => emit('info', scope, message, fields),
+    warn: (message, fields) => emit('warn', scope, message, fields),
+    error: (message, fields) => emit('error', scope, message, fields),
+  };
+}
+
+const requestLog = createLogger('request');
+
+/**
+ * Streamed bodies are still being written when the handler returns
+ */
+const STREAMING_CONTENT_TYPE = /^(?:application\/x-ndjson|text\/event-stream)\b/;
+
+/**
+ * Wrap a route handler: assigns the correlation id, times the request,
+ * logs completion and echoes the correlation id on the response.
+ * For a streamed response the line says "Request streaming" with
+ * `streaming: true` and the time to headers; the route logs the stream's
+ * own completion (see getRequestDuration).
+ */
+export function withRequestLogging<A extends [Request, ...unknown[]]>(
+  route: string,
+  handler: (...args: A) => Promise<Response>
+): (...args: A) => Promise<Response> {
+  return (...args: A) => {
+    const [request] = args;
+    const context: RequestContext = {
+      correlationId:
+        request.headers.get(CORRELATION_ID_HEADER) ||
+        request.headers.get('X-Request-ID') ||
+        randomUUID(),
+      route,
+      startedAt: Date.now(),
+    };
+
+    return requestContext.run(context, async () => {
+      try {
+        const response = await handler(...args);
+        response.headers.set(CORRELATION_ID_HEADER, context.correlationId);
+        const streaming = STREAMING_CONTENT_TYPE.test(response.headers.get('content-type') ?? '');
+        requestLog.info(streaming ? 'Request streaming' : 'Request completed', {
+          method: request.method,
+          status: response.status,
+          duration_ms: Date.now() - context.startedAt,
+          ...(streaming && { streaming: true }),
+        });
+        return response;
+      } catch (error) {
+        requestLog.error('Request failed', {
+          method: request.method,
+          duration_ms: Date.now() - context.startedAt,
+          error,
+        });
+        throw error;
+      }
+    });
+  };
+}
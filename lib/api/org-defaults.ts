@@ -0,0 +1,156 @@
+/**
+ * Organization Default Filters
+ *
+ * Agencies have different baselines: a youth agency always wants
+ * age_groups ['child', 'teen'], a county team wants verified_only and a
+ * 25-mile cap. Profiles are keyed by Clerk organization id or slug and read
+ * from a JSON file:
+ *
+ *   ORG_FILTER_PROFILES_FILE=config/org-filter-profiles.json
+ *
+ *   {
+ *     "youth-services": { "name": "Youth Services", "filters": { "age_groups": ["child", "teen"] } },
+ *     "org_2abc": {
+ *       "name": "County Crisis Team",
+ *       "filters": { "verified_only": true, "max_distance_miles": 25 },
+ *       "care_phases": { "immediate_crisis": { "max_distance_miles": 10, "open_now": true } }
+ *     }
+ *   }
+ *
+ * `care_phases` is the care phase policy: defaults layered over `filters`
+ * when the search is in that phase. A default only fills a field the
+ * request left unset; any value the worker sends (including false or an
+ * empty list) wins, and fields the worker turned off (`defaults_off`, see
+ * lib/filter-url) are skipped.
+ *
+ * Profiles are coerced like extractor output when the file is first read
+ * and kept in module memory, so edits to the file take effect after a
+ * server restart; without the file no organization has defaults.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { CanonicalSearchFilters, OrganizationDefaults } from '@/types/search';
+import { CARE_PHASES, coerceFilters } from './filter-schema';
+import { createLogger } from './logger';
+
+const log = createLogger('org-defaults');
+
+const ORG_FILTER_PROFILES_FILE = process.env.ORG_FILTER_PROFILES_FILE || 'config/org-filter-profiles.json';
+
+type FilterKey = keyof CanonicalSearchFilters;
+
+type CarePhase = NonNullable<CanonicalSearchFilters['care_phase']>;
+
+export interface OrgFilterProfile {
+  name: string;
+  filters: CanonicalSearchFilters;
+  care_phases: Partial<Record<CarePhase, CanonicalSearchFilters>>;
+}
+
+/**
+ * Fields that never take an organization default: the query, the caller's
+ * location and paging belong to the search itself
+ */
+const NO_DEFAULT_FIELDS = new Set<FilterKey>(['keywords', 'location', 'limit', 'offset']);
+
+let profiles: Map<string, OrgFilterProfile> | null = null;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function coerceProfileFilters(key: string, raw: unknown): CanonicalSearchFilters {
+  const { filters, coercions } = coerceFilters(raw);
+  if (coercions.length > 0) {
+    log.warn('Profile filters coerced', { profile: key, coercions });
+  }
+  NO_DEFAULT_FIELDS.forEach(field => delete filters[field]);
+  return filters;
+}
+
+function loadProfiles(): Map<string, OrgFilterProfile> {
+  const loaded = new Map<string, OrgFilterProfile>();
+  const file = path.resolve(ORG_FILTER_PROFILES_FILE);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log.error('Could not read organization filter profiles', { file, error });
+    }
+    return loaded;
+  }
+
+  if (!isRecord(raw)) {
+    log.error('Organization filter profiles must be a JSON object', { file });
+    return loaded;
+  }
+
+  Object.entries(raw).forEach(([key, entry]) => {
+    if (!isRecord(entry)) {
+      log.warn('Skipping profile that is not an object', { profile: key });
+      return;
+    }
+
+    const carePhases: OrgFilterProfile['care_phases'] = {};
+    Object.entries(isRecord(entry.care_phases) ? entry.care_phases : {}).forEach(([phase, filters]) => {
+      if (!(CARE_PHASES as readonly string[]).includes(phase)) {
+        log.warn('Unknown care phase in profile', { profile: key, care_phase: phase });
+        return;
+      }
+      carePhases[phase as CarePhase] = coerceProfileFilters(`${key}.${phase}`, filters);
+    });
+
+    loaded.set(key, {
+      name: typeof entry.name === 'string' ? entry.name : key,
+      filters: coerceProfileFilters(key, entry.filters ?? {}),
+      care_phases: carePhases,
+    });
+  });
+
+  log.info('Organization filter profiles loaded', { profiles: loaded.size });
+  return loaded;
+}
+
+/**
+ * Profile for a Clerk organization (by id, then slug); null when it has none
+ */
+export function getOrgFilterProfile(orgId?: string | null, orgSlug?: string | null): OrgFilterProfile | null {
+  profiles ??= loadProfiles();
+  return (orgId && profiles.get(orgId)) || (orgSlug && profiles.get(orgSlug)) || null;
+}
+
+/**
+ * Fill unset fields from the profile. The phase defaults follow the
+ * request's care phase, or the profile's default one.
+ */
+export function applyOrgDefaults(
+  filters: CanonicalSearchFilters,
+  profile: OrgFilterProfile,
+  defaultsOff: FilterKey[] = []
+): { filters: CanonicalSearchFilters; defaults: OrganizationDefaults } {
+  const phase = filters.care_phase ?? (defaultsOff.includes('care_phase') ? undefined : profile.filters.care_phase);
+  const profileDefaults = { ...profile.filters, ...(phase ? profile.care_phases[phase] : undefined) };
+
+  const next: Record<string, unknown> = { ...filters };
+  const applied: Record<string, unknown> = {};
+  const overridden: FilterKey[] = [];
+
+  (Object.entries(profileDefaults) as Array<[FilterKey, unknown]>).forEach(([key, value]) => {
+    if (value === undefined) return;
+
+    if (filters[key] !== undefined || defaultsOff.includes(key)) {
+      overridden.push(key);
+      return;
+    }
+    next[key] = value;
+    applied[key] = value;
+  });
+
+  return {
+    filters: next as CanonicalSearchFilters,
+    defaults: { profile: profile.name, applied, overridden },
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * PII Redaction
+ *
+ * Crisis workers type client details into the search box ("Maria Lopez,
+ * 34, DOB 3/2/1990, suicidal, lives at 123 Elm St"). None of that helps
+ * find a resource, and it must not reach a third-party LLM or the logs, so
+ * it is replaced with typed placeholders first:
+ *
+ *   "[NAME], 34, DOB [DOB], suicidal, lives at [ADDRESS]"
+ *
+ * Ages, languages, insurance and every other word the phrase rules know
+ * are kept, so extraction works on the redacted text as well as on the
+ * original. Name detection is heuristic and errs towards redacting: any
+ * capitalized word that is neither a known non-name word nor a phrase-rule
+ * word is treated as a name, at the start of a sentence too. Lowercase
+ * names are only caught after a cue that introduces one ("named maria").
+ */
+
+import type { LLMFilterExtractionResponse, PIICategory } from '@/types/search';
+import { isRuleWord } from './rule-extractor';
+
+export interface PIIRedaction {
+  /** Query with each detail replaced by its placeholder */
+  text: string;
+  /** Categories found, in PLACEHOLDERS order */
+  categories: PIICategory[];
+}
+
+export const PLACEHOLDERS: Record<PIICategory, string> = {
+  email: '[EMAIL]',
+  ssn: '[SSN]',
+  phone: '[PHONE]',
+  dob: '[DOB]',
+  mrn: '[MRN]',
+  address: '[ADDRESS]',
+  name: '[NAME]',
+};
+
+const PLACEHOLDER_PATTERN = /\[(?:EMAIL|SSN|PHONE|DOB|MRN|ADDRESS|NAME)\]/g;
+
+interface Detector {
+  category: PIICategory;
+  pattern: RegExp;
+  /** Redact only this capture group, keeping the label ("Medicaid ID [MRN]") */
+  group?: number;
+}
+
+const DATE = String.raw`(?:\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.? \d{1,2}(?:st|nd|rd|th)?,? \d{4}|\d{4})`;
+
+const STREET_SUFFIX = String.raw`(?:street|st|avenue|ave|road|rd|boulevard|blvd|drive|dr|lane|ln|way|court|ct|place|pl|parkway|pkwy|circle|cir|terrace|ter|highway|hwy|trail|trl)`;
+
+/**
+ * Run in order; a later detector never matches inside an earlier match
+ */
+const DETECTORS: Detector[] = [
+  { category: 'email', pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g },
+  { category: 'ssn', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { category: 'ssn', pattern: /\b(?:ssn|social security(?: number| no\.?| #)?)\s*[:#]?\s*(\d{9}|\d{4})\b/gi, group: 1 },
+  { category: 'phone', pattern: /(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g },
+  { category: 'dob', pattern: new RegExp(String.raw`\b(?:dob|d\.o\.b\.?|date of birth|birth ?date|born(?: on| in)?)\s*:?\s*(${DATE})`, 'gi'), group: 1 },
+  { category: 'dob', pattern: /\b\d{1,2}[/.-]\d{1,2}[/.-](?:19|20)\d{2}\b/g },
+  {
+    category: 'mrn',
+    pattern: /\b(?:mrn|medical record(?: number| no\.?| #)?|patient (?:id|number|no\.?|#)|chart (?:number|no\.?|#)|case (?:id|number|no\.?|#)|member id|medicaid id)\s*[:#]?\s*([a-z0-9-]*\d[a-z0-9-]*)/gi,
+    group: 1,
+  },
+  { category: 'mrn', pattern: /\b[A-Z]{1,4}-?\d{5,}\b/g },
+  { category: 'mrn', pattern: /\b\d{7,}\b/g },
+  {
+    category: 'address',
+    pattern: new RegExp(
+      String.raw`\b\d{1,6}\s+(?:[NSEW]\.?\s+)?(?:[A-Za-z0-9'-]+\s+){0,3}${STREET_SUFFIX}\b\.?(?:,?\s*(?:apt|apartment|unit|suite|ste|#)\.?\s*#?\w+)?`,
+      'gi'
+    ),
+  },
+  { category: 'address', pattern: /\bp\.?\s?o\.?\s+box\s+\d+\b/gi },
+];
+
+/**
+ * Capitalized words that are not names: sentence starters, relations,
+ * calendar words and Colorado places (location comes from the page anyway)
+ */
+const NOT_NAMES = new Set([
+  'i', 'a', 'an', 'the', 'my', 'our', 'his', 'her', 'their', 'he', 'she', 'they', 'we', 'you', 'it', 'this', 'that',
+  'what', 'where', 'who', 'which', 'how', 'when', 'any', 'some', 'all', 'and', 'or', 'for', 'with', 'in', 'at', 'of',
+  'need', 'needs', 'needing', 'looking', 'look', 'find', 'finding', 'search', 'show', 'help', 'please', 'want', 'wants',
+  'get', 'is', 'are', 'has', 'have', 'had', 'lives', 'living', 'can', 'could', 'would', 'should', 'only', 'now', 'also',
+  'just', 'closer', 'near', 'nearby', 'place', 'places', 'resource', 'resources', 'services', 'service', 'program',
+  'programs', 'center', 'clinic', 'hospital', 'mental', 'health', 'care', 'treatment', 'support', 'english', 'hi',
+  'client', 'patient', 'caller', 'consumer', 'mom', 'mother', 'dad', 'father', 'son', 'daughter', 'parent', 'husband',
+  'wife', 'partner', 'brother', 'sister', 'friend', 'family', 'dob', 'ssn', 'mrn', 'street', 'avenue', 'road',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'january', 'february', 'march',
+  'april', 'june', 'july', 'august', 'september', 'october', 'november', 'december',
+  'colorado', 'denver', 'aurora', 'boulder', 'fort', 'collins', 'springs', 'pueblo', 'lakewood', 'greeley', 'longmont',
+  'loveland', 'arvada', 'westminster', 'thornton', 'centennial', 'littleton', 'englewood', 'grand', 'junction',
+  'durango', 'county', 'jefferson', 'adams', 'arapahoe', 'douglas', 'larimer', 'weld', 'el', 'paso', 'metro',
+  'these', 'those', 'there', 'here', 'then', 'so', 'but', 'if', 'because', 'since', 'after', 'before', 'while', 'why',
+  'someone', 'somebody', 'anyone', 'anybody', 'everyone', 'nobody', 'nothing', 'something', 'anything', 'everything',
+  'other', 'another', 'more', 'less', 'same', 'both', 'each', 'every', 'either', 'neither', 'again', 'still',
+  'already', 'very', 'really', 'yes', 'no', 'not', 'ok', 'okay', 'thanks', 'thank', 'hello', 'hey', 'was', 'were',
+  'do', 'does', 'did', 'will', 'may', 'might', 'must', 'maybe', 'currently', 'recently', 'today', 'tonight',
+  'tomorrow', 'yesterday', 'weekend', 'morning', 'afternoon', 'evening', 'night', 'spoke', 'called', 'calling',
+  'talked', 'referred', 'discharged', 'released', 'homeless', 'pregnant', 'elderly', 'young', 'older', 'single',
+  'new', 'recent', 'local', 'free', 'open', 'available', 'urgent', 'person', 'people', 'man', 'woman', 'boy', 'girl',
+  'child', 'kid', 'teen', 'adult', 'senior', 'veteran', 'mr', 'mrs', 'ms', 'dr',
+]);
+
+/**
+ * Words that introduce a name in any case ("her name is maria"). The title
+ * stays in the text: "Dr. Smith" becomes "Dr. [NAME]".
+ */
+const NAME_CUE = /\b(?:name is|named|mr\.?|mrs\.?|ms\.?|dr\.?)\s+((?:[a-z][a-z'-]+)(?:\s+[a-z][a-z'-]+)?)/gi;
+
+/**
+ * "my client Jose", "patient Lee Park" - the name must be capitalized, so
+ * "client recently discharged" is left alone
+ */
+const ROLE_CUE = /\b(?:[Cc]lient|[Pp]atient|[Cc]aller|[Cc]onsumer)\s+([A-Z][a-z'-]+(?:\s+[A-Z][a-z'-]+)?)/g;
+
+const CAPITALIZED_WORD = /\b[A-Z][a-z]+(?:['-][A-Za-z][a-z]+)*\b/g;
+
+interface Span {
+  start: number;
+  end: number;
+  category: PIICategory;
+}
+
+/**
+ * Replace personal details in a query with typed placeholders
+ */
+export function redactPII(query: string): PIIRedaction {
+  const spans: Span[] = [];
+  const add = (start: number, end: number, category: PIICategory) => {
+    if (end <= start || spans.some(span => start < span.end && end > span.start)) return;
+    spans.push({ start, end, category });
+  };
+
+  DETECTORS.forEach(({ category, pattern, group }) => {
+    for (const match of query.matchAll(pattern)) {
+      const value = group ? match[group] : match[0];
+      if (!value) continue;
+      const start = match.index! + (group ? match[0].lastIndexOf(value) : 0);
+      add(start, start + value.length, category);
+    }
+  });
+  findNames(query).forEach(([start, end]) => add(start, end, 'name'));
+
+  spans.sort((a, b) => b.start - a.start);
+  let text = query;
+  spans.forEach(({ start, end, category }) => {
+    text = text.slice(0, start) + PLACEHOLDERS[category] + text.slice(end);
+  });
+
+  const found = new Set(spans.map(span => span.category));
+  return {
+    text,
+    categories: (Object.keys(PLACEHOLDERS) as PIICategory[]).filter(category => found.has(category)),
+  };
+}
+
+function isNameWord(word: string): boolean {
+  const lower = word.toLowerCase().replace(/'s$/, '');
+  return !NOT_NAMES.has(lower) && !isRuleWord(lower);
+}
+
+function findNames(query: string): Array<[number, number]> {
+  const names: Array<[number, number]> = [];
+  const fromCue = (cue: RegExp, keep: (word: string) => boolean) => {
+    for (const match of query.matchAll(cue)) {
+      const words = match[1].split(/\s+/);
+      // "named after", "client Will Seeks" - stop at the first ordinary word
+      const stop = words.findIndex(word => !keep(word));
+      const kept = stop === -1 ? words : words.slice(0, stop);
+      if (kept.length === 0) continue;
+      const start = match.index! + match[0].lastIndexOf(match[1]);
+      names.push([start, start + kept.join(' ').length]);
+    }
+  };
+
+  fromCue(NAME_CUE, isNameWord);
+  // After a role the capitalized word is a name even if it's also a common word ("my client Will")
+  fromCue(ROLE_CUE, word => !isRuleWord(word));
+
+  const words = [...query.matchAll(CAPITALIZED_WORD)]
+    .map(match => ({ start: match.index!, end: match.index! + match[0].length }))
+    .filter(word => isNameWord(query.slice(word.start, word.end)));
+
+  for (let i = 0; i < words.length; i++) {
+    let end = i;
+    // Adjacent capitalized words, optionally with a middle initial: "Maria J. Lopez"
+    while (end + 1 < words.length && /^\s+(?:[A-Z]\.\s+)?$/.test(query.slice(words[end].end, words[end + 1].start))) {
+      end++;
+    }
+    names.push([words[i].start, words[end].end]);
+    i = end;
+  }
+
+  return names;
+}
+
+/**
+ * Remove placeholders from free text sent on as search keywords
+ */
+export function stripPlaceholders(text: string): string {
+  return text
+    .replace(PLACEHOLDER_PATTERN, '')
+    .replace(/\s+([,;:.])/g, '$1')
+    .replace(/([,;:])(\s*[,;:])+/g, '$1')
+    .replace(/\s{2,}/g, ' ')
+    .replace(/^[\s,;:]+|[\s,;:]+$/g, '');
+}
+
+/**
+ * Answer with the worker's own query, keep placeholders out of the search
+ * keywords and report what was redacted
+ */
+export function withRedactionReport(
+  response: LLMFilterExtractionResponse,
+  originalQuery: string,
+  redaction: PIIRedaction
+): LLMFilterExtractionResponse {
+  if (redaction.categories.length === 0) return response;
+
+  const filters = { ...response.filters };
+  if (filters.keywords) {
+    filters.keywords = stripPlaceholders(filters.keywords) || undefined;
+  }
+
+  return {
+    ...response,
+    originalQuery,
+    filters,
+    delta: response.delta && { ...response.delta, set: filters },
+    metadata: { ...response.metadata, redacted: redaction.categories },
+  };
+}
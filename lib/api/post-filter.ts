@@ -0,0 +1,374 @@
+/**
+ * Search Post-Filter Stage
+ *
+ * Backend v2 ignores many CanonicalSearchFilters (lgbtq_affirming,
+ * wheelchair_accessible, region, open_now, ...). Rather than silently
+ * dropping them, /api/resources/search evaluates them here against each
+ * result's accessibility_details, population_policies, financial_access,
+ * transportation_info and availability_status.
+ *
+ * - Explicit mismatches are removed
+ * - Results with no data for a filter are kept, but listed in `unknowns`
+ * - The backend is over-fetched so a filtered page is still a full page;
+ *   pages past the over-fetch budget come back empty with has_more false
+ * - Every requested filter is reported as server / local / unenforced
+ */
+
+import type {
+  CanonicalSearchFilters,
+  FilterEnforcement,
+  SearchResponse,
+  SearchResponseV2,
+  SearchResultV2,
+} from '@/types/search';
+import { splitLanguages } from './transform';
+
+type FilterKey = keyof CanonicalSearchFilters;
+
+/**
+ * true = satisfies, false = excluded, undefined = no data
+ */
+type LocalPredicate = (result: SearchResultV2, filters: CanonicalSearchFilters) => boolean | undefined;
+
+/**
+ * Over-fetch tuning: fetch OVERFETCH_FACTOR × the requested window per
+ * backend request (capped), for at most MAX_ROUNDS requests
+ */
+const OVERFETCH_FACTOR = 3;
+const MAX_FETCH_LIMIT = Number(process.env.POST_FILTER_MAX_FETCH) || 100;
+const MAX_ROUNDS = 3;
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Filters the backend applies itself (see transformFiltersToBackendParams)
+ */
+const SERVER_FILTERS = new Set<FilterKey>([
+  'keywords', 'service_types', 'care_phase', 'location', 'max_distance_miles',
+  'insurance', 'age_groups', 'gender_specific', 'has_crisis_services',
+  'walk_ins_accepted', 'urgentAccessOnly', 'acceptingNewPatients',
+  'verified_only', 'min_rcs',
+]);
+
+/**
+ * Request-shaping params, not filters
+ */
+const NON_FILTER_KEYS = new Set<FilterKey>(['sort_by', 'sort_order', 'limit', 'offset']);
+
+/**
+ * Filters with no data in the search payload to evaluate
+ */
+const UNENFORCEABLE_FILTERS: Partial<Record<FilterKey, string>> = {
+  travel_mode: 'Transit times are not calculated yet',
+  max_transit_time_min: 'Transit times are not calculated yet',
+  evidence_based_practices: 'Evidence-based practices are not in search results',
+  accreditations: 'Accreditations are not in search results',
+  treatment_modalities: 'Treatment modalities are not in search results',
+};
+
+/**
+ * Cities covered by each region filter value
+ */
+const REGION_CITIES: Record<string, string[]> = {
+  'denver-metro': [
+    'denver', 'aurora', 'lakewood', 'arvada', 'westminster', 'thornton',
+    'centennial', 'englewood', 'littleton', 'commerce city', 'northglenn',
+    'broomfield', 'wheat ridge', 'golden', 'parker', 'castle rock',
+    'highlands ranch', 'brighton', 'greenwood village', 'federal heights',
+  ],
+  'colorado-springs': ['colorado springs', 'fountain', 'manitou springs', 'monument', 'security-widefield'],
+  'boulder': ['boulder', 'longmont', 'louisville', 'lafayette', 'superior', 'erie', 'nederland'],
+  'fort-collins': ['fort collins', 'loveland', 'windsor', 'wellington', 'timnath'],
+};
+
+const ALWAYS_OPEN_PATTERN = /24\s*\/\s*7|24\s*hours|24\s*hrs|open\s*24|24-hour/i;
+
+/**
+ * Feature filters only narrow when true ("wheelchair_accessible: false"
+ * means "don't care", not "inaccessible only")
+ */
+function hasFeature(requested: boolean | undefined, actual: boolean | undefined): boolean | undefined {
+  if (!requested) return true;
+  return actual === undefined ? undefined : actual === true;
+}
+
+function matchesBoolean(expected: boolean | undefined, actual: boolean | undefined): boolean | undefined {
+  return actual === undefined ? undefined : actual === expected;
+}
+
+/**
+ * Filters evaluated locally against each backend result
+ */
+const LOCAL_FILTERS: Partial<Record<FilterKey, LocalPredicate>> = {
+  // Population policies
+  lgbtq_affirming: ({ details }, f) => hasFeature(f.lgbtq_affirming, details.population_policies?.lgbtq_affirming),
+  serves_undocumented: ({ details }, f) => hasFeature(f.serves_undocumented, details.population_policies?.serves_undocumented),
+  serves_justice_involved: ({ details }, f) => hasFeature(f.serves_justice_involved, details.population_policies?.serves_justice_involved),
+  referral_required: ({ details }, f) => matchesBoolean(f.referral_required, details.population_policies?.referral_required),
+
+  // Accessibility
+  wheelchair_accessible: ({ details }, f) => hasFeature(f.wheelchair_accessible, details.accessibility_details?.wheelchair_accessible),
+  telehealth_available: ({ details }, f) => hasFeature(f.telehealth_available, details.accessibility_details?.telehealth_available),
+  asl_interpretation: ({ details }, f) => hasFeature(f.asl_interpretation, details.accessibility_details?.asl_interpretation),
+  // Same derivation as ResourceSearchResult.accessibility_score
+  min_accessibility_score: ({ verification }, f) =>
+    verification.data_completeness === undefined
+      ? undefined
+      : verification.data_completeness * 100 >= (f.min_accessibility_score ?? 0),
+
+  // Financial access
+  has_sliding_scale: ({ details }, f) => hasFeature(f.has_sliding_scale, details.financial_access?.sliding_scale),
+  has_charity_care: ({ details }, f) => hasFeature(f.has_charity_care, details.financial_access?.charity_care),
+  max_cost_per_session: ({ details }, f) => {
+    const financial = details.financial_access;
+    if (financial?.free_services) return true;
+    if (financial?.cost_per_session === undefined) return undefined;
+    return financial.cost_per_session <= (f.max_cost_per_session ?? Infinity);
+  },
+
+  // Transportation
+  has_transit: ({ details }, f) => hasFeature(f.has_transit, details.transportation_info?.public_transit),
+  has_parking: ({ details }, f) => hasFeature(f.has_parking, details.transportation_info?.parking),
+  has_ride_programs: ({ details }, f) => hasFeature(f.has_ride_programs, details.transportation_info?.ride_programs),
+
+  // Availability
+  accepting_patients: ({ details }, f) => hasFeature(f.accepting_patients, details.availability_status?.accepting_new_patients),
+  max_waitlist_days: ({ details }, f) => {
+    const status = details.availability_status;
+    if (status?.typical_wait_days === undefined) return undefined;
+    return status.typical_wait_days <= (f.max_waitlist_days ?? Infinity);
+  },
+  available_within_hours: ({ details }, f) => {
+    const status = details.availability_status;
+    if (status?.urgent_access_available) return true;
+    if (status?.typical_wait_days === undefined) return undefined;
+    return status.typical_wait_days * 24 <= (f.available_within_hours ?? Infinity);
+  },
+  // Only round-the-clock hours can be recognised from free-text hours
+  open_now: ({ details }) => {
+    if (details.availability_status?.current_capacity_status === 'full') return false;
+    return details.hours_text && ALWAYS_OPEN_PATTERN.test(details.hours_text) ? true : undefined;
+  },
+
+  // Quality
+  verified_within_days: ({ verification }, f) =>
+    verification.days_since_verification === null
+      ? false
+      : verification.days_since_verification <= (f.verified_within_days ?? Infinity),
+
+  // Geography
+  region: ({ details }, f) => {
+    const cities = f.region ? REGION_CITIES[f.region] : undefined;
+    if (!cities) return true;
+    return details.city ? cities.includes(details.city.trim().toLowerCase()) : undefined;
+  },
+  city: ({ details }, f) =>
+    details.city ? details.city.trim().toLowerCase() === f.city?.trim().toLowerCase() : undefined,
+
+  // Language names the backend can't filter on (codes are sent to the backend)
+  languages: ({ details }, f) => {
+    const { names } = splitLanguages(f.languages ?? []);
+    if (names.length === 0) return true;
+    const offered = (details.language_labels || []).map(label => label.toLowerCase());
+    if (offered.length === 0) return undefined;
+    return names.some(name => offered.includes(name.toLowerCase()));
+  },
+};
+
+export interface PostFilterPlan {
+  /** Filters evaluated locally */
+  local: FilterKey[];
+  enforcement: Partial<Record<FilterKey, FilterEnforcement>>;
+}
+
+export interface PostFilterOutcome {
+  response: SearchResponseV2;
+  enforcement: Partial<Record<FilterKey, FilterEnforcement>>;
+  /** Local filters each kept result has no data for */
+  unknownsById: Record<string, string[]>;
+  stats: NonNullable<SearchResponse['metadata']['post_filter']>;
+}
+
+function isActive(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return false;
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+/**
+ * Classify every requested filter as server / local / unenforced
+ */
+export function planPostFilter(filters: CanonicalSearchFilters): PostFilterPlan {
+  const local: FilterKey[] = [];
+  const enforcement: PostFilterPlan['enforcement'] = {};
+
+  (Object.keys(filters) as FilterKey[]).forEach(key => {
+    if (NON_FILTER_KEYS.has(key) || !isActive(filters[key])) return;
+    // Only referral_required is meaningful when false
+    if (filters[key] === false && LOCAL_FILTERS[key] && key !== 'referral_required') return;
+
+    if (key === 'languages') {
+      // Codes go to the backend; unmapped names are checked locally
+      const { names } = splitLanguages(filters.languages ?? []);
+      if (names.length > 0) {
+        local.push(key);
+        enforcement[key] = { status: 'local', excluded: 0, unknown: 0 };
+      } else {
+        enforcement[key] = { status: 'server' };
+      }
+    } else if (key === 'region' && filters.region === 'all') {
+      return;
+    } else if (SERVER_FILTERS.has(key)) {
+      enforcement[key] = { status: 'server' };
+    } else if (LOCAL_FILTERS[key]) {
+      local.push(key);
+      enforcement[key] = { status: 'local', excluded: 0, unknown: 0 };
+    } else {
+      enforcement[key] = {
+        status: 'unenforced',
+        reason: UNENFORCEABLE_FILTERS[key] ?? 'Not supported by the search backend',
+      };
+    }
+  });
+
+  return { local, enforcement };
+}
+
+/**
+ * Extra cache-key params for every requested filter in the plan. The
+ * backend params alone don't distinguish locally enforced or unenforced
+ * filters, yet the cached response echoes them and reports their
+ * enforcement (which becomes the search warnings).
+ */
+export function postFilterCacheParams(
+  filters: CanonicalSearchFilters,
+  plan: PostFilterPlan
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  const serverKeys: FilterKey[] = [];
+
+  (Object.keys(plan.enforcement) as FilterKey[]).forEach(key => {
+    if (plan.enforcement[key]?.status === 'server') {
+      // Values are in the backend params already (location rounded there)
+      serverKeys.push(key);
+    } else {
+      params[`post_${key}`] = JSON.stringify(filters[key]);
+    }
+  });
+  params.post_server = serverKeys.sort().join(',');
+  return params;
+}
+
+/**
+ * Search the backend, post-filter results and return the requested window.
+ * Over-fetches from offset 0 so pages stay full and stable across requests.
+ */
+export async function runPostFilteredSearch(
+  backendParams: Record<string, string>,
+  filters: CanonicalSearchFilters,
+  plan: PostFilterPlan,
+  search: (params: Record<string, string>) => Promise<SearchResponseV2>
+): Promise<PostFilterOutcome> {
+  const limit = Number(backendParams.limit) || DEFAULT_LIMIT;
+  const offset = Number(backendParams.offset) || 0;
+  // One extra result tells us whether another page exists
+  const target = offset + limit + 1;
+  const batchSize = Math.min(MAX_FETCH_LIMIT, Math.max(target * OVERFETCH_FACTOR, limit));
+
+  const enforcement = structuredClone(plan.enforcement);
+  const unknownsById: Record<string, string[]> = {};
+  const kept: SearchResultV2[] = [];
+  let fetched = 0;
+  let rounds = 0;
+  let last: SearchResponseV2 | undefined;
+
+  while (kept.length < target && rounds < MAX_ROUNDS) {
+    last = await search({ ...backendParams, limit: String(batchSize), offset: String(fetched) });
+    rounds++;
+    fetched += last.results.length;
+
+    last.results.forEach(result => {
+      const unknowns: string[] = [];
+      let passes = true;
+
+      for (const key of plan.local) {
+        const verdict = LOCAL_FILTERS[key]!(result, filters);
+        if (verdict === false) {
+          enforcement[key]!.excluded! += 1;
+          passes = false;
+          break;
+        }
+        if (verdict === undefined) {
+          unknowns.push(key);
+        }
+      }
+
+      if (!passes) return;
+      unknowns.forEach(key => { enforcement[key as FilterKey]!.unknown! += 1; });
+      if (unknowns.length > 0) unknownsById[result.resource_id] = unknowns;
+      kept.push(result);
+    });
+
+    if (!last.pagination.has_more || last.results.length === 0) break;
+  }
+
+  const backendHasMore = last?.pagination.has_more ?? false;
+  const totalEstimated = backendHasMore && fetched > 0;
+  const total = totalEstimated
+    ? Math.max(kept.length, Math.round((last!.total * kept.length) / fetched))
+    : kept.length;
+
+  return {
+    response: {
+      ...last!,
+      total,
+      results: kept.slice(offset, offset + limit),
+      pagination: {
+        limit,
+        offset,
+        // Only what was fetched can be paged: once MAX_ROUNDS / MAX_FETCH_LIMIT
+        // run out, later pages would be empty even if the backend has more
+        has_more: kept.length > offset + limit,
+      },
+    },
+    enforcement,
+    unknownsById,
+    stats: { fetched, kept: kept.length, rounds, total_estimated: totalEstimated },
+  };
+}
+
+/**
+ * Annotate the transformed response: echo local filters back in
+ * applied_filters with the enforcement report, and flag unknowns per item
+ */
+export function annotatePostFilter(
+  response: SearchResponse,
+  filters: CanonicalSearchFilters,
+  enforcement: PostFilterOutcome['enforcement'],
+  outcome?: Pick<PostFilterOutcome, 'unknownsById' | 'stats'>
+): SearchResponse {
+  const echoed: Partial<CanonicalSearchFilters> = {};
+  (Object.keys(enforcement) as FilterKey[]).forEach(key => {
+    if (enforcement[key]?.status !== 'server') {
+      (echoed as Record<string, unknown>)[key] = filters[key];
+    }
+  });
+
+  return {
+    ...response,
+    items: outcome
+      ? response.items.map(item => ({
+          ...item,
+          unknowns: [...new Set([...item.unknowns, ...(outcome.unknownsById[item.id] || [])])],
+        }))
+      : response.items,
+    applied_filters: {
+      ...response.applied_filters,
+      ...echoed,
+      enforcement,
+    },
+    metadata: {
+      ...response.metadata,
+      post_filter: outcome?.stats,
+    },
+  };
+}
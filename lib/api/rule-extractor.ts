@@ -0,0 +1,429 @@
+/**
+ * Rule-Based Filter Extractor
+ *
+ * Deterministic extraction over the whole filter schema, used when no LLM
+ * provider is available. The query is tokenized and matched against phrase
+ * rules (longest match wins, so "partial hospitalization" beats
+ * "hospitalization" and "women" never matches "men"). A negator shortly
+ * before a match in the same clause ("not inpatient", "no referral
+ * needed") excludes the value, or sets a yes/no filter to false.
+ *
+ * Every match is returned as a span of the original query, which doubles
+ * as the explanation shown to the worker.
+ */
+
+import type { CanonicalSearchFilters } from '@/types/search';
+import { getFilterLabel } from '@/lib/filter-labels';
+import { LANGUAGE_NAME_TO_CODE } from './filter-schema';
+
+type CarePhase = NonNullable<CanonicalSearchFilters['care_phase']>;
+
+export type ListField = 'service_types' | 'insurance' | 'languages' | 'age_groups';
+
+type FlagField =
+  | 'has_crisis_services' | 'walk_ins_accepted' | 'referral_required' | 'urgentAccessOnly'
+  | 'lgbtq_affirming' | 'wheelchair_accessible' | 'telehealth_available' | 'asl_interpretation'
+  | 'serves_justice_involved' | 'serves_undocumented' | 'has_sliding_scale' | 'has_charity_care'
+  | 'has_transit' | 'has_parking' | 'open_now' | 'acceptingNewPatients';
+
+type RuleEffect =
+  | { list: ListField; value: string }
+  | { flag: FlagField }
+  | { gender: 'male' | 'female' }
+  | { phase: CarePhase }
+  /** Marks substance-use context without setting a filter */
+  | { context: 'substance_use' };
+
+interface Rule {
+  phrases: string[];
+  effects: RuleEffect[];
+}
+
+/**
+ * A rule match, as a span of the original query
+ */
+export interface RuleMatch {
+  text: string;
+  start: number;
+  end: number;
+  /** Human-readable effects ("Insurance: medicaid", "Not referral required") */
+  effects: string[];
+  negated: boolean;
+}
+
+export interface RuleExtraction {
+  filters: CanonicalSearchFilters;
+  /** Values the query explicitly ruled out ("not inpatient") */
+  excluded: Partial<Record<ListField, string[]>>;
+  matches: RuleMatch[];
+}
+
+const service = (value: string): RuleEffect => ({ list: 'service_types', value });
+const flag = (value: FlagField): RuleEffect => ({ flag: value });
+const phase = (value: CarePhase): RuleEffect => ({ phase: value });
+const CRISIS = flag('has_crisis_services');
+const URGENT = flag('urgentAccessOnly');
+const SUBSTANCE_USE: RuleEffect = { context: 'substance_use' };
+
+/**
+ * Phrases are matched per token; a trailing * matches any word starting
+ * with the prefix, and plurals ("meetings", "seniors") match automatically.
+ * Short acronyms and everyday words ("na", "mat", "man", "today") match far
+ * more than they mean, so they only appear inside longer phrases.
+ */
+const RULES: Rule[] = [
+  // Crisis services
+  { phrases: ['crisis line', 'crisis hotline', 'hotline', '988', 'crisis call'], effects: [service('crisis_line'), CRISIS, phase('immediate_crisis')] },
+  { phrases: ['crisis text', 'crisis text line', 'text line'], effects: [service('crisis_text'), CRISIS, phase('immediate_crisis')] },
+  { phrases: ['crisis chat', 'chat line'], effects: [service('crisis_chat'), CRISIS, phase('immediate_crisis')] },
+  {
+    phrases: ['mobile crisis', 'crisis team', 'hurt themselves', 'hurt himself', 'hurt herself', 'harm themselves', 'harm himself', 'harm herself'],
+    effects: [service('crisis_mobile'), CRISIS, phase('immediate_crisis')],
+  },
+  { phrases: ['crisis center'], effects: [service('crisis_walk_in'), CRISIS, phase('immediate_crisis')] },
+  { phrases: ['crisis walk in', 'walk in crisis'], effects: [service('crisis_walk_in'), flag('walk_ins_accepted'), CRISIS, phase('immediate_crisis')] },
+  { phrases: ['crisis stabilization', 'stabilization unit'], effects: [service('crisis_stabilization'), CRISIS, phase('immediate_crisis')] },
+  { phrases: ['suicid*', 'kill themselves', 'kill himself', 'kill herself'], effects: [service('suicide_prevention'), CRISIS, phase('immediate_crisis')] },
+  { phrases: ['crisis'], effects: [CRISIS, phase('immediate_crisis')] },
+  { phrases: ['emergency', 'overdos*'], effects: [CRISIS, URGENT, phase('immediate_crisis')] },
+
+  // Inpatient / residential
+  { phrases: ['inpatient', 'psychiatric hospital', 'psych ward', 'hospitalization'], effects: [service('inpatient_psychiatric'), phase('acute_support')] },
+  { phrases: ['dual diagnosis'], effects: [service('inpatient_dual_diagnosis'), phase('acute_support')] },
+  { phrases: ['long term residential'], effects: [service('residential_long_term'), phase('recovery_support')] },
+  { phrases: ['residential', 'short term residential'], effects: [service('residential_short_term'), phase('recovery_support')] },
+  { phrases: ['partial hospitalization', 'php'], effects: [service('partial_hospitalization'), phase('acute_support')] },
+
+  // Outpatient
+  { phrases: ['therapy', 'therapist', 'counseling', 'counselling', 'counselor', 'psychotherapy', 'outpatient', 'outpatient therapy', 'talk therapy'], effects: [service('outpatient_therapy')] },
+  { phrases: ['intensive outpatient', 'iop'], effects: [service('intensive_outpatient'), phase('acute_support')] },
+  { phrases: ['medication management', 'med management', 'psychiatrist', 'psychiatry', 'psychiatric appointment'], effects: [service('medication_management')] },
+  { phrases: ['teletherapy', 'online therapy', 'virtual therapy', 'video therapy'], effects: [service('telehealth_therapy'), flag('telehealth_available')] },
+  { phrases: ['case management', 'case manager'], effects: [service('case_management'), phase('recovery_support')] },
+  { phrases: ['peer support', 'peer specialist', 'peer mentor'], effects: [service('peer_support'), phase('recovery_support')] },
+
+  // Substance use
+  { phrases: ['detox', 'detoxification', 'withdrawal management'], effects: [service('detox'), SUBSTANCE_USE, phase('acute_support')] },
+  { phrases: ['social detox'], effects: [service('detox_social'), SUBSTANCE_USE, phase('acute_support')] },
+  { phrases: ['rehab', 'inpatient rehab', 'residential rehab'], effects: [service('sud_inpatient'), SUBSTANCE_USE, phase('recovery_support')] },
+  { phrases: ['outpatient rehab', 'substance use counseling', 'addiction counseling'], effects: [service('sud_outpatient'), SUBSTANCE_USE, phase('recovery_support')] },
+  { phrases: ['medication assisted treatment', 'mat program', 'mat clinic', 'mat provider', 'suboxone', 'methadone', 'buprenorphine'], effects: [service('mat'), SUBSTANCE_USE, phase('recovery_support')] },
+  { phrases: ['recovery support', 'recovery coach', 'sober living'], effects: [service('recovery_support'), phase('recovery_support')] },
+  { phrases: ['harm reduction', 'narcan', 'naloxone', 'syringe exchange', 'needle exchange'], effects: [service('harm_reduction'), SUBSTANCE_USE] },
+  { phrases: ['substance abuse', 'substance use', 'addiction', 'drug', 'alcohol*', 'opioid'], effects: [SUBSTANCE_USE] },
+
+  // Support groups
+  { phrases: ['support group'], effects: [service('support_group_general'), phase('maintenance')] },
+  { phrases: ['aa meeting', 'aa group', 'alcoholics anonymous'], effects: [service('support_group_aa'), phase('maintenance')] },
+  { phrases: ['na meeting', 'na group', 'narcotics anonymous'], effects: [service('support_group_na'), phase('maintenance')] },
+  { phrases: ['smart recovery'], effects: [service('support_group_smart'), phase('maintenance')] },
+  { phrases: ['family support group', 'al anon'], effects: [service('support_group_family'), phase('maintenance')] },
+  { phrases: ['grief support group', 'grief group', 'bereavement group'], effects: [service('support_group_grief'), phase('maintenance')] },
+
+  // Social needs
+  { phrases: ['housing', 'shelter', 'homeless*', 'rent assistance'], effects: [service('housing'), phase('recovery_support')] },
+  { phrases: ['food', 'food bank', 'food pantry', 'meals', 'groceries'], effects: [service('food'), phase('recovery_support')] },
+  { phrases: ['transportation', 'bus pass', 'ride to'], effects: [service('transportation'), phase('recovery_support')] },
+  { phrases: ['legal', 'lawyer', 'attorney', 'legal aid'], effects: [service('legal'), phase('recovery_support')] },
+  { phrases: ['employment', 'job', 'job training'], effects: [service('employment'), phase('recovery_support')] },
+  { phrases: ['primary care', 'medical care'], effects: [service('healthcare')] },
+  { phrases: ['ged', 'education'], effects: [service('education'), phase('recovery_support')] },
+  { phrases: ['financial assistance', 'utility assistance', 'cash assistance'], effects: [service('financial'), phase('recovery_support')] },
+
+  // Care phase words
+  { phrases: ['acute', 'recent trauma'], effects: [phase('acute_support')] },
+  { phrases: ['recovery'], effects: [phase('recovery_support')] },
+  { phrases: ['ongoing', 'wellness', 'maintenance', 'prevention'], effects: [phase('maintenance')] },
+
+  // Urgency ("now" is handled separately - see isUrgentNow)
+  { phrases: ['urgent*', 'asap', 'immediately', 'right now', 'right away'], effects: [URGENT, phase('acute_support')] },
+  { phrases: ['same day', 'seen today', 'available today', 'appointment today'], effects: [URGENT, phase('acute_support')] },
+  { phrases: ['tonight'], effects: [URGENT, phase('immediate_crisis')] },
+
+  // Insurance
+  { phrases: ['medicaid', 'health first colorado', 'chp+', 'chp plus'], effects: [{ list: 'insurance', value: 'medicaid' }] },
+  { phrases: ['medicare'], effects: [{ list: 'insurance', value: 'medicare' }] },
+  { phrases: ['private insurance', 'commercial insurance'], effects: [{ list: 'insurance', value: 'private' }] },
+  { phrases: ['uninsured', 'no insurance', 'without insurance', 'self pay'], effects: [{ list: 'insurance', value: 'uninsured' }] },
+  { phrases: ['sliding scale'], effects: [flag('has_sliding_scale')] },
+  { phrases: ['charity care', 'free care', 'free of charge'], effects: [flag('has_charity_care')] },
+
+  // Age groups
+  { phrases: ['child', 'children', 'kid', 'toddler'], effects: [{ list: 'age_groups', value: 'child' }] },
+  { phrases: ['teen', 'teenager', 'adolescent', 'youth', 'high school*'], effects: [{ list: 'age_groups', value: 'teen' }] },
+  { phrases: ['adult'], effects: [{ list: 'age_groups', value: 'adult' }] },
+  { phrases: ['senior', 'elderly', 'older adult'], effects: [{ list: 'age_groups', value: 'senior' }] },
+
+  // Gender ("a man with dementia" describes the client, not the service)
+  { phrases: ['women', 'female'], effects: [{ gender: 'female' }] },
+  { phrases: ['men', 'male'], effects: [{ gender: 'male' }] },
+
+  // Access and accessibility
+  { phrases: ['walk in', 'drop in', 'no appointment', 'without appointment', 'without an appointment'], effects: [flag('walk_ins_accepted')] },
+  { phrases: ['referral', 'referred'], effects: [flag('referral_required')] },
+  { phrases: ['wheelchair*', 'ada accessible'], effects: [flag('wheelchair_accessible')] },
+  { phrases: ['telehealth', 'virtual', 'online', 'video visit', 'remote'], effects: [flag('telehealth_available')] },
+  { phrases: ['asl', 'sign language', 'deaf'], effects: [flag('asl_interpretation')] },
+  { phrases: ['lgbtq*', 'lgbt', 'queer', 'transgender', 'trans', 'gay', 'lesbian'], effects: [flag('lgbtq_affirming')] },
+  { phrases: ['jail', 'prison', 'probation', 'parole', 'justice involved', 'incarcerat*', 'reentry'], effects: [flag('serves_justice_involved'), phase('recovery_support')] },
+  { phrases: ['undocumented', 'immigration status'], effects: [flag('serves_undocumented')] },
+  { phrases: ['public transit', 'bus line', 'near a bus'], effects: [flag('has_transit')] },
+  { phrases: ['parking'], effects: [flag('has_parking')] },
+  { phrases: ['open now'], effects: [flag('open_now')] },
+  { phrases: ['accepting new patients', 'taking new patients'], effects: [flag('acceptingNewPatients')] },
+
+  // Languages
+  ...Object.entries(LANGUAGE_NAME_TO_CODE).map(([name, code]) => ({
+    phrases: [name],
+    effects: [{ list: 'languages' as const, value: code }],
+  })),
+];
+
+const RULE_WORDS = new Set(RULES.flatMap(rule => rule.phrases.flatMap(phrase => phrase.split(' '))));
+const RULE_PREFIXES = [...RULE_WORDS].filter(word => word.endsWith('*')).map(word => word.slice(0, -1));
+
+/**
+ * Whether a word is part of any phrase rule ("Spanish", "Medicaid",
+ * "suicidal"), i.e. carries filter meaning
+ */
+export function isRuleWord(word: string): boolean {
+  const lower = word.toLowerCase();
+  return RULE_WORDS.has(lower)
+    || RULE_WORDS.has(lower.replace(/e?s$/, ''))
+    || RULE_PREFIXES.some(prefix => lower.startsWith(prefix));
+}
+
+/**
+ * Most urgent phase wins when several match
+ */
+const PHASE_RANK: CarePhase[] = ['immediate_crisis', 'acute_support', 'recovery_support', 'maintenance'];
+
+const NEGATORS = new Set([
+  'not', 'no', 'without', 'never', 'non', 'avoid', 'except', 'excluding', 'exclude',
+  "don't", 'dont', "doesn't", 'doesnt', "isn't", 'isnt', "won't", 'wont', "can't", 'cant',
+]);
+
+/**
+ * How many words before a match a negator still applies to
+ */
+const NEGATION_WINDOW = 3;
+
+/**
+ * Words after "now" that make it a discourse marker ("now only ones that
+ * take Medicaid") rather than urgency ("needs help now")
+ */
+const NOW_DISCOURSE_FOLLOWERS = new Set(['only', 'show', 'just', 'also', 'limit', 'filter', 'find', 'search', 'what', 'i']);
+
+const DISTANCE_PATTERN = /\b(?:within|under|less than|no more than|up to)?\s*(\d+(?:\.\d+)?)\s*(?:miles?|mi)\b/gi;
+
+interface Token {
+  norm: string;
+  start: number;
+  end: number;
+  /** First word of a clause (after punctuation or "but") */
+  clauseStart: boolean;
+}
+
+export function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  const text = query.replace(/[’‘]/g, "'");
+  let clauseStart = true;
+
+  for (const match of text.matchAll(/[a-z0-9+]+(?:'[a-z]+)?|[,.;:!?()]/gi)) {
+    const word = match[0].toLowerCase();
+    if (/^[,.;:!?()]$/.test(word) || word === 'but') {
+      clauseStart = true;
+      continue;
+    }
+
+    tokens.push({
+      // Possessives match the noun: "women's" -> "women"
+      norm: word.replace(/'s$/, ''),
+      start: match.index!,
+      end: match.index! + match[0].length,
+      clauseStart,
+    });
+    clauseStart = false;
+  }
+
+  return tokens;
+}
+
+function tokenMatches(token: string, pattern: string): boolean {
+  if (pattern.endsWith('*')) return token.startsWith(pattern.slice(0, -1));
+  return token === pattern || token === `${pattern}s` || token === `${pattern}es`;
+}
+
+const COMPILED_RULES = RULES.flatMap(rule =>
+  rule.phrases.map(phrase => ({ rule, words: phrase.toLowerCase().split(/[\s-]+/) }))
+);
+
+interface Candidate {
+  rule: Rule;
+  start: number;
+  end: number;
+}
+
+/**
+ * Every rule match, longest first, without overlaps
+ */
+function findMatches(tokens: Token[]): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  COMPILED_RULES.forEach(({ rule, words }) => {
+    for (let i = 0; i + words.length <= tokens.length; i++) {
+      if (words.every((word, offset) => tokenMatches(tokens[i + offset].norm, word))) {
+        candidates.push({ rule, start: i, end: i + words.length });
+      }
+    }
+  });
+
+  candidates.sort((a, b) => (b.end - b.start) - (a.end - a.start) || a.start - b.start);
+
+  const taken = new Set<number>();
+  const accepted = candidates.filter(candidate => {
+    for (let i = candidate.start; i < candidate.end; i++) {
+      if (taken.has(i)) return false;
+    }
+    for (let i = candidate.start; i < candidate.end; i++) taken.add(i);
+    return true;
+  });
+
+  return accepted.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * A negator within NEGATION_WINDOW words before the match, in the same
+ * clause and not part of another match ("no insurance" is its own phrase)
+ */
+function isNegated(tokens: Token[], candidate: Candidate, matched: Set<number>): boolean {
+  for (let j = candidate.start - 1; j >= Math.max(0, candidate.start - NEGATION_WINDOW); j--) {
+    if (tokens[j + 1].clauseStart || matched.has(j)) return false;
+    if (NEGATORS.has(tokens[j].norm)) return true;
+  }
+  return false;
+}
+
+function isUrgentNow(tokens: Token[], index: number): boolean {
+  if (tokens[index].norm !== 'now' || tokens[index].clauseStart) return false;
+  const next = tokens[index + 1];
+  return !next || next.clauseStart || !NOW_DISCOURSE_FOLLOWERS.has(next.norm);
+}
+
+function describeEffect(effect: RuleEffect, negated: boolean): string | null {
+  if ('list' in effect) {
+    return `${negated ? 'Not ' : ''}${getFilterLabel(effect.list)}: ${effect.value.replace(/_/g, ' ')}`;
+  }
+  if ('flag' in effect) return `${negated ? 'Not ' : ''}${getFilterLabel(effect.flag)}`;
+  if ('gender' in effect) return negated ? null : `${getFilterLabel('gender_specific')}: ${effect.gender}`;
+  if ('phase' in effect) return negated ? null : `${getFilterLabel('care_phase')}: ${effect.phase.replace(/_/g, ' ')}`;
+  return null;
+}
+
+/**
+ * Extract filters from a query with the phrase rules
+ */
+export function extractWithRules(query: string): RuleExtraction {
+  const tokens = tokenize(query);
+  const candidates = findMatches(tokens);
+  const matchedTokens = new Set(candidates.flatMap(c => Array.from({ length: c.end - c.start }, (_, i) => c.start + i)));
+
+  const lists: Record<ListField, Set<string>> = {
+    service_types: new Set(), insurance: new Set(), languages: new Set(), age_groups: new Set(),
+  };
+  const excluded: RuleExtraction['excluded'] = {};
+  const flags: Partial<Record<FlagField, boolean>> = {};
+  const phases = new Set<CarePhase>();
+  let gender: 'male' | 'female' | undefined;
+  let substanceUse = false;
+  const matches: RuleMatch[] = [];
+
+  candidates.forEach(candidate => {
+    const negated = isNegated(tokens, candidate, matchedTokens);
+    const effects: string[] = [];
+
+    candidate.rule.effects.forEach(effect => {
+      if ('list' in effect) {
+        if (negated) {
+          (excluded[effect.list] ??= []).push(effect.value);
+        } else {
+          lists[effect.list].add(effect.value);
+        }
+      } else if ('flag' in effect) {
+        // A negated yes/no filter is an explicit "no" ("no referral needed")
+        flags[effect.flag] = !negated;
+      } else if ('gender' in effect) {
+        if (!negated) gender = effect.gender;
+      } else if ('phase' in effect) {
+        if (!negated) phases.add(effect.phase);
+      } else {
+        substanceUse = true;
+      }
+
+      const description = describeEffect(effect, negated);
+      if (description) effects.push(description);
+    });
+
+    matches.push({
+      text: query.slice(tokens[candidate.start].start, tokens[candidate.end - 1].end),
+      start: tokens[candidate.start].start,
+      end: tokens[candidate.end - 1].end,
+      effects,
+      negated,
+    });
+  });
+
+  tokens.forEach((token, index) => {
+    if (!matchedTokens.has(index) && isUrgentNow(tokens, index)) {
+      flags.urgentAccessOnly = true;
+      matches.push({ text: query.slice(token.start, token.end), start: token.start, end: token.end, effects: [getFilterLabel('urgentAccessOnly')], negated: false });
+    }
+  });
+
+  // Residential / inpatient care for substance use is SUD treatment
+  if (substanceUse) {
+    ['residential_short_term', 'residential_long_term', 'inpatient_psychiatric'].forEach(code => {
+      if (lists.service_types.delete(code)) lists.service_types.add('sud_inpatient');
+    });
+  }
+  // Explicit exclusions win over other phrases that imply the same value
+  (Object.keys(excluded) as ListField[]).forEach(field => {
+    excluded[field]!.forEach(value => lists[field].delete(value));
+  });
+
+  let maxDistance: number | undefined;
+  for (const match of query.matchAll(DISTANCE_PATTERN)) {
+    maxDistance = Number(match[1]);
+    matches.push({
+      text: match[0].trim(),
+      start: match.index! + match[0].length - match[0].trimStart().length,
+      end: match.index! + match[0].length,
+      effects: [`Within ${maxDistance} mi`],
+      negated: false,
+    });
+  }
+
+  const filters: CanonicalSearchFilters = {
+    care_phase: PHASE_RANK.find(p => phases.has(p)),
+    gender_specific: gender,
+    max_distance_miles: maxDistance,
+    ...flags,
+  };
+  (Object.keys(lists) as ListField[]).forEach(field => {
+    if (lists[field].size > 0) (filters as Record<string, unknown>)[field] = [...lists[field]];
+  });
+
+  matches.sort((a, b) => a.start - b.start);
+  return { filters, excluded, matches };
+}
+
+/**
+ * Explanation built from the matched spans:
+ * "walk-in" → Walk-ins; "not inpatient" → Not Services: inpatient psychiatric
+ */
+export function explainMatches(matches: RuleMatch[]): string {
+  return matches
+    .filter(match => match.effects.length > 0)
+    .map(match => `"${match.text}" → ${match.effects.join(', ')}`)
+    .join('; ');
+}
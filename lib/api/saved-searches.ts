@@ -0,0 +1,145 @@
+/**
+ * Saved Search Store
+ *
+ * Named searches (query + full filters) a worker launches again every
+ * shift, scoped to the Clerk user who saved them. Routes use the
+ * SavedSearchStore interface; the file implementation below keeps every
+ * user's searches in one JSON file, so it runs locally without a database:
+ *
+ *   SAVED_SEARCHES_FILE=.data/saved-searches.json
+ *
+ * Writes go through a single queue and replace the file atomically (write
+ * to a temp file, then rename), so concurrent requests can't interleave.
+ * Another backend only needs to implement the same interface.
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import type { CanonicalSearchFilters, SavedSearch } from '@/types/search';
+
+const SAVED_SEARCHES_FILE = process.env.SAVED_SEARCHES_FILE || '.data/saved-searches.json';
+
+export const SAVED_SEARCHES_MAX_PER_USER = Number(process.env.SAVED_SEARCHES_MAX_PER_USER) || 50;
+
+const MAX_NAME_LENGTH = 80;
+
+export interface SavedSearchInput {
+  name: string;
+  query: string;
+  filters: CanonicalSearchFilters;
+}
+
+export interface SavedSearchStore {
+  /** The user's searches, most recently updated first */
+  list(userId: string): Promise<SavedSearch[]>;
+  get(userId: string, id: string): Promise<SavedSearch | null>;
+  /** Null when the user already has SAVED_SEARCHES_MAX_PER_USER searches */
+  create(userId: string, input: SavedSearchInput): Promise<SavedSearch | null>;
+  /** Null if the user has no such search */
+  rename(userId: string, id: string, name: string): Promise<SavedSearch | null>;
+  /** False if the user has no such search */
+  delete(userId: string, id: string): Promise<boolean>;
+}
+
+/**
+ * Trimmed name, or null when it is missing or too long
+ */
+export function normalizeSavedSearchName(name: unknown): string | null {
+  if (typeof name !== 'string') return null;
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  return trimmed.length > 0 && trimmed.length <= MAX_NAME_LENGTH ? trimmed : null;
+}
+
+type SavedSearchFile = Record<string, SavedSearch[]>;
+
+function byRecent(a: SavedSearch, b: SavedSearch): number {
+  return b.updated_at.localeCompare(a.updated_at);
+}
+
+/**
+ * Create a store backed by one JSON file (created on first save)
+ */
+export function createFileSavedSearchStore(filePath = SAVED_SEARCHES_FILE): SavedSearchStore {
+  const file = path.resolve(filePath);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<SavedSearchFile> => {
+    try {
+      return JSON.parse(await readFile(file, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  };
+
+  const write = async (data: SavedSearchFile) => {
+    await mkdir(path.dirname(file), { recursive: true });
+    const temp = `${file}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(data, null, 2));
+    await rename(temp, file);
+  };
+
+  // Run read-modify-write steps one at a time
+  const update = <T>(change: (data: SavedSearchFile) => T): Promise<T> => {
+    const next = queue.then(async () => {
+      const data = await read();
+      const result = change(data);
+      await write(data);
+      return result;
+    });
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  return {
+    async list(userId) {
+      await queue;
+      const data = await read();
+      return [...(data[userId] ?? [])].sort(byRecent);
+    },
+
+    async get(userId, id) {
+      await queue;
+      const data = await read();
+      return data[userId]?.find(search => search.id === id) ?? null;
+    },
+
+    create(userId, input) {
+      return update(data => {
+        const searches = data[userId] ?? [];
+        if (searches.length >= SAVED_SEARCHES_MAX_PER_USER) return null;
+
+        const now = new Date().toISOString();
+        const search: SavedSearch = { id: randomUUID(), ...input, created_at: now, updated_at: now };
+        data[userId] = [...searches, search];
+        return search;
+      });
+    },
+
+    rename(userId, id, name) {
+      return update(data => {
+        const search = data[userId]?.find(s => s.id === id);
+        if (!search) return null;
+
+        search.name = name;
+        search.updated_at = new Date().toISOString();
+        return search;
+      });
+    },
+
+    delete(userId, id) {
+      return update(data => {
+        const searches = data[userId] ?? [];
+        const remaining = searches.filter(search => search.id !== id);
+        if (remaining.length === searches.length) return false;
+
+        if (remaining.length > 0) data[userId] = remaining;
+        else delete data[userId];
+        return true;
+      });
+    },
+  };
+}
+
+export const savedSearchStore: SavedSearchStore = createFileSavedSearchStore();
@@ -0,0 +1,73 @@
+/**
+ * Search Result Cache
+ *
+ * Caches transformed search responses keyed on normalized backend params,
+ * so repeat searches during a call (filter toggles back and forth) return
+ * instantly instead of hitting the FastAPI backend again.
+ */
+
+import type { SearchResponse } from '@/types/search';
+import { createCache } from './cache';
+
+const SEARCH_CACHE_TTL_MS = Number(process.env.SEARCH_CACHE_TTL_MS) || 60_000;
+const SEARCH_CACHE_STALE_MS = Number(process.env.SEARCH_CACHE_STALE_MS) || 5 * 60_000;
+const SEARCH_CACHE_MAX_ENTRIES = Number(process.env.SEARCH_CACHE_MAX_ENTRIES) || 500;
+
+/**
+ * Coordinate precision for cache keys (3 decimals ≈ 110m)
+ */
+const COORDINATE_PRECISION = 3;
+
+/**
+ * Params whose values are comma-separated lists where order doesn't matter
+ */
+const LIST_PARAMS = new Set(['service_types', 'insurance_types', 'languages', 'age_groups']);
+
+export const searchCache = createCache<SearchResponse>({
+  ttlMs: SEARCH_CACHE_TTL_MS,
+  staleMs: SEARCH_CACHE_STALE_MS,
+  maxEntries: SEARCH_CACHE_MAX_ENTRIES,
+  name: 'Search Cache',
+});
+
+/**
+ * Build a stable cache key from backend params
+ * (output of transformFiltersToBackendParams)
+ *
+ * - Keys sorted
+ * - Coordinates rounded
+ * - List values sorted
+ * - Free-text query lowercased with collapsed whitespace
+ */
+export function buildSearchCacheKey(params: Record<string, string>): string {
+  const normalized = Object.keys(params)
+    .sort()
+    .filter(key => params[key] !== undefined && params[key] !== '')
+    .map(key => [key, normalizeParamValue(key, params[key])]);
+
+  return JSON.stringify(normalized);
+}
+
+function normalizeParamValue(key: string, value: string): string {
+  if (key === 'location') {
+    return value
+      .split(',')
+      .map(part => Number(part).toFixed(COORDINATE_PRECISION))
+      .join(',');
+  }
+
+  if (LIST_PARAMS.has(key)) {
+    return value
+      .split(',')
+      .map(part => part.trim())
+      .filter(Boolean)
+      .sort()
+      .join(',');
+  }
+
+  if (key === 'query') {
+    return value.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  return value;
+}
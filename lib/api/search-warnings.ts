@@ -0,0 +1,90 @@
+/**
+ * Search Warnings
+ *
+ * Turns what the search route did behind the worker's back (dropped filters,
+ * partially enforced filters, an injected default query, no location, a sort
+ * applied to the loaded results only) into
+ * SearchResponse.warnings so the UI can say so instead of the server log.
+ */
+
+import type {
+  AppliedFilters,
+  CanonicalSearchFilters,
+  SearchResponse,
+  SearchWarning,
+} from '@/types/search';
+import { getFilterLabel } from '@/lib/filter-labels';
+import { SORT_OPTIONS } from '@/lib/search-sort';
+
+export interface SearchWarningContext {
+  filters: CanonicalSearchFilters;
+  enforcement: AppliedFilters['enforcement'];
+  /** What the route searched for when the request had no query or services */
+  injectedDefault?: { query?: string; service_types?: string };
+  /** Sort and window of the response (see applyRequestedSort) */
+  sort?: SearchResponse['metadata']['sort'];
+  pagination?: SearchResponse['pagination'];
+}
+
+/**
+ * Build warnings for a search response
+ */
+export function buildSearchWarnings({
+  filters,
+  enforcement = {},
+  injectedDefault,
+  sort,
+  pagination,
+}: SearchWarningContext): SearchWarning[] {
+  const warnings: SearchWarning[] = [];
+
+  (Object.keys(enforcement) as Array<keyof CanonicalSearchFilters>).forEach(filter => {
+    const report = enforcement[filter];
+    if (!report) return;
+    const label = getFilterLabel(filter);
+
+    if (report.status === 'unenforced') {
+      warnings.push({
+        code: 'FILTER_UNSUPPORTED',
+        filter,
+        message: `${label} filter was not applied${report.reason ? ` (${report.reason.toLowerCase()})` : ''}.`,
+      });
+    } else if (report.status === 'local' && report.unknown) {
+      warnings.push({
+        code: 'FILTER_PARTIAL',
+        filter,
+        message: `${label}: ${report.unknown} result${report.unknown !== 1 ? 's have' : ' has'} no data for this and may not match.`,
+      });
+    }
+  });
+
+  if (injectedDefault?.query) {
+    warnings.push({
+      code: 'DEFAULT_QUERY_INJECTED',
+      message: `No search terms or services given - showing results for "${injectedDefault.query}".`,
+    });
+  } else if (injectedDefault?.service_types) {
+    warnings.push({
+      code: 'DEFAULT_QUERY_INJECTED',
+      message: 'No search terms or services given - showing crisis services.',
+    });
+  }
+
+  // A local sort only orders the results in this response
+  if (sort?.applied_by === 'local' && pagination && (pagination.offset > 0 || pagination.has_more)) {
+    const label = SORT_OPTIONS.find(option => option.value === sort.sort_by)?.label ?? sort.sort_by;
+    warnings.push({
+      code: 'SORT_PARTIAL',
+      message: `"${label}" only orders the results loaded so far - results on other pages may rank higher.`,
+    });
+  }
+
+  if (!filters.location?.coordinates) {
+    warnings.push({
+      code: 'LOCATION_MISSING',
+      message: 'No location set - results are not limited or sorted by distance.',
+    });
+  }
+
+  return warnings;
+}
@@ -6,7 +6,22 @@
  * - Backend uses different field names and structures
  */
 
-import type { CanonicalSearchFilters, SearchResponse, ResourceSearchResult, LocationCoordinate } from '@/types/search';
+import type {
+  CanonicalSearchFilters,
+  SearchResponse,
+  ResourceSearchResult,
+  LocationCoordinate,
+  ResourceDetail,
+  SearchResponseV2,
+  SearchResultV2,
+  ResourceDetailV2,
+  BackendVocabularyItem,
+} from '@/types/search';
+import { getDefaultSortOrder } from '@/lib/search-sort';
+import { createLogger } from './logger';
+import { LANGUAGE_NAME_TO_CODE } from './filter-schema';
+
+const log = createLogger('transform');
 
 /**
  * Distance conversion constants [bead v3n2]
@@ -16,21 +31,41 @@ const MILES_TO_KM = 1.60934;
 const KM_TO_MILES = 0.621371;
 
 /**
- * Age group aliases for common LLM mistakes
+ * Canonical age groups → backend codes (child and adult match as-is).
+ * Extractor aliases ("teenager", "elderly") are resolved earlier by the
+ * filter schema.
  */
-const AGE_GROUP_ALIASES: Record<string, string> = {
+const AGE_GROUP_TO_BACKEND: Record<string, string> = {
   'teen': 'adolescent',
-  'teens': 'adolescent',
-  'teenager': 'adolescent',
-  'teenagers': 'adolescent',
-  'youth': 'adolescent',
-  'kids': 'child',
-  'children': 'child',
-  'elderly': 'older_adult',
   'senior': 'older_adult',
-  'seniors': 'older_adult',
 };
 
+const AGE_GROUP_FROM_BACKEND: Record<string, string> = Object.fromEntries(
+  Object.entries(AGE_GROUP_TO_BACKEND).map(([canonical, backend]) => [backend, canonical])
+);
+
+/**
+ * Split requested languages into backend codes and names we couldn't map
+ * (unmapped names are enforced by the search route's post-filter stage)
+ */
+export function splitLanguages(languages: string[] | string): { codes: string[]; names: string[] } {
+  const codes: string[] = [];
+  const names: string[] = [];
+
+  (Array.isArray(languages) ? languages : [languages]).forEach(language => {
+    const value = language.trim().toLowerCase();
+    if (/^[a-z]{2}$/.test(value)) {
+      codes.push(value);
+    } else if (LANGUAGE_NAME_TO_CODE[value]) {
+      codes.push(LANGUAGE_NAME_TO_CODE[value]);
+    } else if (value) {
+      names.push(language.trim());
+    }
+  });
+
+  return { codes: [...new Set(codes)], names };
+}
+
 /**
  * Transform frontend CanonicalSearchFilters to backend query params
  */
@@ -52,7 +87,7 @@ export function transformFiltersToBackendParams(
     if (typeof lat === 'number' && typeof lon === 'number') {
       params.location = `${lat},${lon}`;
     } else {
-      console.error('[Transform] Invalid coordinates:', { lat, lon, type_lat: typeof lat, type_lon: typeof lon });
+      log.error('Invalid coordinates', { lat, lon, type_lat: typeof lat, type_lon: typeof lon });
       throw new Error(`Invalid location coordinates: lat=${lat} (${typeof lat}), lon=${lon} (${typeof lon})`);
     }
   }
@@ -78,21 +113,21 @@ export function transformFiltersToBackendParams(
       : filters.insurance;
   }
 
-  // Languages (comma-separated) - handle both string and array
+  // Languages (comma-separated ISO codes) - names are mapped where known
   if (filters.languages) {
-    params.languages = Array.isArray(filters.languages)
-      ? filters.languages.join(',')
-      : filters.languages;
+    const { codes } = splitLanguages(filters.languages);
+    if (codes.length > 0) {
+      params.languages = codes.join(',');
+    }
   }
 
-  // Age groups (comma-separated) - handle both string and array, map aliases
+  // Age groups (comma-separated) - handle both string and array, map to backend codes
   if (filters.age_groups) {
     const ageGroupsArray = Array.isArray(filters.age_groups)
       ? filters.age_groups
       : [filters.age_groups];
 
-    // Map aliases to canonical codes
-    const mappedAgeGroups = ageGroupsArray.map(ag => AGE_GROUP_ALIASES[ag] || ag);
+    const mappedAgeGroups = ageGroupsArray.map(ag => AGE_GROUP_TO_BACKEND[ag] || ag);
 
     params.age_groups = mappedAgeGroups.join(',');
   }
@@ -108,20 +143,9 @@ export function transformFiltersToBackendParams(
     params.gender_specific = filters.gender_specific;
   }
 
-  // NOTE: These filters are NOT supported by backend v2 yet - skip them
-  // Log warning if user requested unsupported filters
-  if (filters.lgbtq_affirming !== undefined) {
-    console.warn('[Transform] Skipping lgbtq_affirming filter - not supported by backend v2 yet');
-  }
-  if (filters.referral_required !== undefined) {
-    console.warn('[Transform] Skipping referral_required filter - not supported by backend v2 yet');
-  }
-  if (filters.wheelchair_accessible !== undefined) {
-    console.warn('[Transform] Skipping wheelchair_accessible filter - not supported by backend v2 yet');
-  }
-  if (filters.telehealth_available !== undefined) {
-    console.warn('[Transform] Skipping telehealth_available filter - not supported by backend v2 yet');
-  }
+  // NOTE: lgbtq_affirming, referral_required, wheelchair_accessible,
+  // telehealth_available (and other SDOH filters) are NOT supported by
+  // backend v2 yet - they're enforced by the post-filter stage (lib/api/post-filter.ts)
 
   // Availability: camelCase → snake_case
   if (filters.urgentAccessOnly !== undefined) {
@@ -144,6 +168,12 @@ export function transformFiltersToBackendParams(
     params.min_confidence = filters.min_rcs.toString();
   }
 
+  // Sorting (the search route re-sorts locally if the backend doesn't echo sort_by back)
+  if (filters.sort_by && filters.sort_by !== 'relevance') {
+    params.sort_by = filters.sort_by;
+    params.sort_order = filters.sort_order ?? getDefaultSortOrder(filters.sort_by);
+  }
+
   // Pagination
   if (filters.limit) {
     params.limit = filters.limit.toString();
@@ -157,17 +187,19 @@ export function transformFiltersToBackendParams(
 
 /**
  * Transform backend SearchResponseV2 to frontend SearchResponse
+ * (input is already validated by BackendClient)
  */
 export function transformBackendSearchResponse(
-  backendResponse: any
+  backendResponse: SearchResponseV2
 ): SearchResponse {
   return {
-    items: backendResponse.results?.map(transformBackendResult) || [],
-    total: backendResponse.total || 0,
-    applied_filters: transformBackendFilters(backendResponse.filters_applied || {}),
+    items: backendResponse.results.map(transformBackendResult),
+    total: backendResponse.total,
+    pagination: backendResponse.pagination,
+    applied_filters: transformBackendFilters(backendResponse.filters_applied),
     metadata: {
-      execution_time_ms: backendResponse.execution_time_ms || 0,
-      from_cache: backendResponse.from_cache || false,
+      execution_time_ms: backendResponse.metadata?.execution_time_ms ?? 0,
+      from_cache: backendResponse.metadata?.from_cache ?? false,
       timestamp: new Date().toISOString(),
     },
   };
@@ -176,22 +208,60 @@ export function transformBackendSearchResponse(
 /**
  * Transform individual backend result to frontend ResourceSearchResult
  */
-function transformBackendResult(result: any): ResourceSearchResult {
+function transformBackendResult(result: SearchResultV2): ResourceSearchResult {
+  return transformBackendResource(result);
+}
+
+/**
+ * Transform backend resource detail (GET /v2/resources/{id}) to ResourceDetail.
+ * Shares the search result mapping so both views agree on every common field.
+ */
+export function transformBackendResourceDetail(detail: ResourceDetailV2): ResourceDetail {
+  const { details } = detail;
+
+  return {
+    ...transformBackendResource(detail),
+    address: {
+      street: details.street,
+      city: details.city,
+      state: details.state,
+      postal_code: details.postal_code,
+      formatted: [details.street, details.city, details.state, details.postal_code]
+        .filter(Boolean)
+        .join(', ') || undefined,
+    },
+    hours_text: details.hours_text,
+    languages: details.language_labels || details.canonical_languages,
+    availability_status: details.availability_status,
+    financial_access: details.financial_access,
+    accessibility_details: details.accessibility_details,
+    transportation_info: details.transportation_info,
+    population_policies: details.population_policies,
+  };
+}
+
+/**
+ * Common mapping for search results and resource details
+ */
+function transformBackendResource(result: ResourceDetailV2): ResourceSearchResult {
+  const { details, verification, match } = result;
+
   return {
     id: result.resource_id,
-    name: result.details?.name || result.name || 'Unknown Resource',
-    display_name: result.details?.display_name || result.display_name,
-    description: result.details?.description || result.description,
-    type: result.resource_type || result.type || 'facility',
-    city: result.details?.city || result.city,
-    state: result.details?.state || result.state,
-    latitude: result.details?.latitude || result.latitude,
-    longitude: result.details?.longitude || result.longitude,
-    phone_numbers: result.details?.phone_numbers || result.phone_numbers || [],
-    website: result.details?.website || result.website,
-    email: result.details?.email || result.email,
-    match_score: result.match?.score || result.match_score || 0.5,
-    match_reasons: (result.match?.criteria_met || []).map((criterion: string) => ({
+    name: details.name,
+    display_name: details.display_name,
+    description: details.description,
+    type: result.resource_type,
+    city: details.city,
+    state: details.state,
+    latitude: details.latitude,
+    longitude: details.longitude,
+    phone_numbers: details.phone_numbers || [],
+    website: details.website,
+    email: details.email,
+    // Detail payloads carry no match - score is only meaningful in search
+    match_score: match?.score ?? 0,
+    match_reasons: (match?.criteria_met || []).map(criterion => ({
       category: 'service' as const,
       field: criterion,
       matched_value: true,
@@ -200,34 +270,40 @@ function transformBackendResult(result: any): ResourceSearchResult {
     })),
     unknowns: [],
     provenance: {
-      source: result.verification?.verification_method || result.provenance?.source || 'unknown',
-      rcs: result.verification?.confidence_score || result.provenance?.rcs || 0.5,
-      last_verified_at: result.verification?.last_verified_at || result.provenance?.last_verified_at,
-      verification_method: result.verification?.verification_method as 'automated' | 'manual' | 'community' | undefined,
-      verified_by: result.verification?.verified_by || result.provenance?.verified_by,
+      source: verification.verification_method || 'unknown',
+      rcs: verification.confidence_score,
+      last_verified_at: verification.last_verified_at ?? undefined,
+      verification_method: verification.verification_method,
+      verified_by: verification.verified_by,
     },
-    services: result.details?.services?.map((svc: any) => ({
+    services: details.services.map(svc => ({
       id: svc.id || svc.name,
       name: svc.name,
-      service_type: svc.canonical_type || svc.service_type,
-      rcs: svc.rcs || result.verification?.confidence_score || 0.5,
-    })) || [],
-    distance_miles: result.details?.distance_km
-      ? result.details.distance_km * KM_TO_MILES
-      : result.distance_km
-      ? result.distance_km * KM_TO_MILES
+      description: svc.description,
+      service_type: svc.canonical_type,
+      rcs: verification.confidence_score,
+    })),
+    distance_miles: details.distance_km !== undefined
+      ? details.distance_km * KM_TO_MILES
+      : undefined,
+    accessibility_score: verification.data_completeness !== undefined
+      ? Math.round(verification.data_completeness * 100)
       : undefined,
-    accessibility_score: result.verification?.data_completeness
-      ? Math.round(result.verification.data_completeness * 100)
-      : result.accessibility_score,
     tier: result.tier,
   };
 }
 
+/**
+ * Vocabulary entries come back as plain codes or { code, label } objects
+ */
+function vocabularyCodes(items?: BackendVocabularyItem[]): string[] | undefined {
+  return items?.map(item => (typeof item === 'string' ? item : item.code));
+}
+
 /**
  * Transform backend filters back to frontend format
  */
-function transformBackendFilters(backendFilters: any): CanonicalSearchFilters {
+function transformBackendFilters(backendFilters: SearchResponseV2['filters_applied']): CanonicalSearchFilters {
   return {
     keywords: backendFilters.query,
     location: backendFilters.location ? {
@@ -235,16 +311,12 @@ function transformBackendFilters(backendFilters: any): CanonicalSearchFilters {
       coordinates: parseLocation(backendFilters.location),
     } : undefined,
     max_distance_miles: backendFilters.radius_km ? Number(backendFilters.radius_km) * KM_TO_MILES : undefined,
-    service_types: backendFilters.service_types?.map((st: any) =>
-      typeof st === 'string' ? st : st.code
-    ),
-    insurance: backendFilters.insurance_types?.map((it: any) =>
-      typeof it === 'string' ? it : it.code
-    ),
-    languages: backendFilters.languages?.map((lang: any) =>
-      typeof lang === 'string' ? lang : lang.code
-    ),
-    age_groups: backendFilters.age_groups,
+    service_types: vocabularyCodes(backendFilters.service_types),
+    insurance: vocabularyCodes(backendFilters.insurance_types),
+    languages: vocabularyCodes(backendFilters.languages),
+    age_groups: backendFilters.age_groups?.map(
+      ag => AGE_GROUP_FROM_BACKEND[ag] || ag
+    ) as CanonicalSearchFilters['age_groups'],
     has_crisis_services: backendFilters.has_crisis_services,
     walk_ins_accepted: backendFilters.walk_ins_accepted,
     referral_required: backendFilters.referral_required,
@@ -257,6 +329,8 @@ function transformBackendFilters(backendFilters: any): CanonicalSearchFilters {
     care_phase: backendFilters.care_phase,
     verified_only: backendFilters.verified_only,
     min_rcs: backendFilters.min_confidence ? Number(backendFilters.min_confidence) : undefined,
+    sort_by: backendFilters.sort_by,
+    sort_order: backendFilters.sort_order,
     limit: backendFilters.limit ? Number(backendFilters.limit) : undefined,
     offset: backendFilters.offset ? Number(backendFilters.offset) : undefined,
   };
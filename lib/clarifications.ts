@@ -0,0 +1,42 @@
+/**
+ * Clarifying Question Helpers
+ *
+ * Merge a worker's answer to a FilterAmbiguity back into the search filters.
+ */
+
+import type { CanonicalSearchFilters, FilterAmbiguity } from '@/types/search';
+
+type AmbiguityValue = FilterAmbiguity['options'][number]['value'];
+
+/**
+ * Filters that hold a list - answers are added rather than replacing
+ */
+const LIST_FIELDS = new Set<keyof CanonicalSearchFilters>([
+  'service_types', 'insurance', 'languages', 'age_groups',
+  'evidence_based_practices', 'accreditations', 'treatment_modalities',
+]);
+
+export function splitAmbiguities(ambiguities: FilterAmbiguity[] = []) {
+  return {
+    critical: ambiguities.filter(a => a.is_critical),
+    refinements: ambiguities.filter(a => !a.is_critical),
+  };
+}
+
+/**
+ * Apply one answer to the filters
+ */
+export function applyAmbiguityAnswer(
+  filters: CanonicalSearchFilters,
+  ambiguity: FilterAmbiguity,
+  value: AmbiguityValue
+): CanonicalSearchFilters {
+  const field = ambiguity.field as keyof CanonicalSearchFilters;
+
+  if (LIST_FIELDS.has(field)) {
+    const current = (filters[field] as unknown[] | undefined) ?? [];
+    return { ...filters, [field]: [...new Set([...current, value])] };
+  }
+
+  return { ...filters, [field]: value };
+}
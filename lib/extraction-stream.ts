@@ -0,0 +1,100 @@
+/**
+ * Extraction Stream Helpers
+ *
+ * Read the streaming response of /api/llm/extract-filters (one
+ * ExtractionStreamEvent per line) and describe its progress to the worker.
+ */
+
+import type { CanonicalSearchFilters, ExtractionStreamEvent, LLMFilterExtractionResponse } from '@/types/search';
+
+export const EXTRACTION_STREAM_ACCEPT = 'application/x-ndjson';
+
+const REDACTED_LABELS: Record<string, string> = {
+  name: 'name', dob: 'date of birth', phone: 'phone', email: 'email',
+  address: 'address', ssn: 'SSN', mrn: 'record number',
+};
+
+/**
+ * Pass every event to `onEvent`; resolves with the final response.
+ * Throws on an error event or when the stream ends without filters.
+ */
+export async function readExtractionStream(
+  response: Response,
+  onEvent: (event: ExtractionStreamEvent) => void
+): Promise<LLMFilterExtractionResponse> {
+  if (!response.body) throw new Error('Empty extraction response');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: LLMFilterExtractionResponse | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const event: ExtractionStreamEvent = JSON.parse(line);
+    onEvent(event);
+    if (event.stage === 'error') throw new Error(event.error);
+    if (event.stage === 'filters_ready') result = event.response;
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+
+  if (!result) throw new Error('Extraction stream ended without filters');
+  return result;
+}
+
+/**
+ * Short status line for an event ("Asking openai...")
+ */
+export function describeStage(event: ExtractionStreamEvent): string {
+  switch (event.stage) {
+    case 'received':
+      return 'Reading your search';
+    case 'redacted':
+      return event.redacted.length > 0
+        ? `Removed personal details (${event.redacted.map(c => REDACTED_LABELS[c] ?? c).join(', ')})`
+        : 'Reading your search';
+    case 'partial_filters':
+      return 'Matched key phrases';
+    case 'provider_attempt':
+      return event.attempt > 1 ? `Trying ${event.provider} (attempt ${event.attempt})` : `Asking ${event.provider}`;
+    case 'provider_failed':
+      return `${event.provider} did not answer`;
+    case 'fallback':
+      return 'Using phrase matching only';
+    case 'filters_ready':
+      return 'Filters ready';
+    case 'error':
+      return 'Could not analyze the search';
+  }
+}
+
+/**
+ * Partial filters good enough to search with while the LLM is still
+ * working: the care phase decides which kind of resource comes first
+ */
+export function canSearchEarly(filters: CanonicalSearchFilters): boolean {
+  return filters.care_phase !== undefined;
+}
+
+/**
+ * Same filters regardless of key or list order
+ */
+export function sameFilters(a: CanonicalSearchFilters, b: CanonicalSearchFilters): boolean {
+  const normalize = (filters: CanonicalSearchFilters) => JSON.stringify(
+    Object.entries(filters)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, Array.isArray(value) ? [...value].sort() : value])
+      .sort(([a], [b]) => String(a).localeCompare(String(b)))
+  );
+  return normalize(a) === normalize(b);
+}
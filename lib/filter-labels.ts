@@ -0,0 +1,84 @@
+/**
+ * Human-readable labels for CanonicalSearchFilters fields
+ *
+ * Used wherever a filter is named to the worker (search warnings,
+ * filter chips) so the same filter always reads the same way.
+ */
+
+import type { CanonicalSearchFilters } from '@/types/search';
+
+export const FILTER_LABELS: Record<keyof CanonicalSearchFilters, string> = {
+  keywords: 'Keywords',
+  service_types: 'Services',
+  care_phase: 'Care phase',
+  location: 'Location',
+  max_distance_miles: 'Distance',
+  max_transit_time_min: 'Transit time',
+  travel_mode: 'Travel mode',
+  insurance: 'Insurance',
+  has_sliding_scale: 'Sliding scale',
+  has_charity_care: 'Charity care',
+  max_cost_per_session: 'Cost per session',
+  has_transit: 'Public transit',
+  has_parking: 'Parking',
+  has_ride_programs: 'Ride programs',
+  languages: 'Languages',
+  lgbtq_affirming: 'LGBTQ+ affirming',
+  serves_undocumented: 'Serves undocumented',
+  serves_justice_involved: 'Serves justice-involved',
+  age_groups: 'Age groups',
+  gender_specific: 'Gender',
+  wheelchair_accessible: 'Wheelchair accessible',
+  telehealth_available: 'Telehealth',
+  min_accessibility_score: 'Accessibility score',
+  asl_interpretation: 'ASL interpretation',
+  accepting_patients: 'Accepting patients',
+  acceptingNewPatients: 'Accepting new patients',
+  urgentAccessOnly: 'Urgent access',
+  has_crisis_services: 'Crisis services',
+  open_now: 'Open now',
+  available_within_hours: 'Available within',
+  max_waitlist_days: 'Waitlist',
+  min_rcs: 'Minimum confidence',
+  verified_only: 'Verified only',
+  verified_within_days: 'Recently verified',
+  evidence_based_practices: 'Evidence-based practices',
+  accreditations: 'Accreditations',
+  treatment_modalities: 'Treatment modalities',
+  walk_ins_accepted: 'Walk-ins',
+  referral_required: 'Referral required',
+  region: 'Region',
+  city: 'City',
+  sort_by: 'Sort',
+  sort_order: 'Sort order',
+  limit: 'Page size',
+  offset: 'Offset',
+};
+
+export function getFilterLabel(key: keyof CanonicalSearchFilters): string {
+  return FILTER_LABELS[key] ?? key;
+}
+
+/**
+ * One filter as a short phrase: "Walk-ins", "Within 10 mi", "Languages: es"
+ */
+export function describeFilter(key: keyof CanonicalSearchFilters, value: unknown): string {
+  const label = getFilterLabel(key);
+  if (value === true) return label;
+  if (value === false) return `Not ${label.toLowerCase()}`;
+  if (key === 'max_distance_miles') return `Within ${value} mi`;
+  if (Array.isArray(value)) return `${label}: ${value.join(', ')}`;
+  return `${label}: ${String(value).replace(/_/g, ' ')}`;
+}
+
+/**
+ * Filters not worth a chip: free text is the query itself, location, sort
+ * and paging come from the page
+ */
+const CHIP_HIDDEN_FIELDS = new Set<keyof CanonicalSearchFilters>([
+  'keywords', 'location', 'sort_by', 'sort_order', 'limit', 'offset',
+]);
+
+export function isChipField(key: keyof CanonicalSearchFilters): boolean {
+  return !CHIP_HIDDEN_FIELDS.has(key);
+}
@@ -0,0 +1,162 @@
+/**
+ * Search Filter URL Codec
+ *
+ * Encodes CanonicalSearchFilters as URL params and back, exactly: the
+ * field's kind in FILTER_SCHEMA decides how it is read, so a one-element
+ * list stays a list and a ZIP code stays a string.
+ *
+ *   fv=1                       codec version (no fv - no filter state)
+ *   keywords=detox             text and enum fields as-is
+ *   walk_ins_accepted=true     booleans
+ *   max_distance_miles=10      numbers
+ *   languages=es&languages=en  lists repeat the param; `languages=` is []
+ *   location.address=...       location fields flattened (location.lat, location.lon,
+ *                              location.city, location.state, location.postal_code)
+ *   defaults_off=verified_only organization defaults turned off for this search
+ *                              (encodeDefaultsOff / decodeDefaultsOff)
+ *
+ * Bump FILTER_URL_VERSION when the format changes and keep decoding the
+ * old versions, so shared links keep working.
+ */
+
+import type { CanonicalSearchFilters, SearchLocation } from '@/types/search';
+import { FILTER_SCHEMA } from '@/lib/api/filter-schema';
+
+type FilterKey = keyof CanonicalSearchFilters;
+
+export const FILTER_URL_VERSION = 1;
+
+export const FILTER_VERSION_PARAM = 'fv';
+
+export const DEFAULTS_OFF_PARAM = 'defaults_off';
+
+const LOCATION_PREFIX = 'location.';
+
+const LIST_KINDS = new Set(['enum_list', 'language_list', 'text_list']);
+
+const FILTER_KEYS = Object.keys(FILTER_SCHEMA) as FilterKey[];
+
+/**
+ * Write filters into `params` (a new URLSearchParams by default), replacing
+ * any filter params already there
+ */
+export function encodeFilters(
+  filters: CanonicalSearchFilters,
+  params: URLSearchParams = new URLSearchParams()
+): URLSearchParams {
+  clearFilterParams(params);
+  params.set(FILTER_VERSION_PARAM, String(FILTER_URL_VERSION));
+
+  FILTER_KEYS.forEach(key => {
+    const value = filters[key];
+    if (value === undefined || value === null) return;
+
+    if (key === 'location') {
+      encodeLocation(value as SearchLocation, params);
+    } else if (Array.isArray(value)) {
+      if (value.length === 0) params.append(key, '');
+      value.forEach(item => params.append(key, String(item)));
+    } else {
+      params.set(key, String(value));
+    }
+  });
+
+  return params;
+}
+
+/**
+ * Read filters written by encodeFilters; null when the params carry no
+ * filter state (no fv) or a version this build doesn't know
+ */
+export function decodeFilters(params: URLSearchParams): CanonicalSearchFilters | null {
+  const version = params.get(FILTER_VERSION_PARAM);
+  if (version !== String(FILTER_URL_VERSION)) return null;
+
+  const filters: Record<string, unknown> = {};
+
+  FILTER_KEYS.forEach(key => {
+    const { kind } = FILTER_SCHEMA[key];
+
+    if (kind === 'location') {
+      const location = decodeLocation(params);
+      if (location) filters[key] = location;
+      return;
+    }
+
+    const values = params.getAll(key);
+    if (values.length === 0) return;
+
+    if (LIST_KINDS.has(kind)) {
+      filters[key] = values.length === 1 && values[0] === '' ? [] : values;
+    } else if (kind === 'number') {
+      const number = Number(values[0]);
+      if (values[0] !== '' && Number.isFinite(number)) filters[key] = number;
+    } else if (kind === 'boolean') {
+      if (values[0] === 'true' || values[0] === 'false') filters[key] = values[0] === 'true';
+    } else {
+      filters[key] = values[0];
+    }
+  });
+
+  return filters as CanonicalSearchFilters;
+}
+
+/**
+ * Remove the version and every filter param, keeping the rest (q, page, ...)
+ */
+export function clearFilterParams(params: URLSearchParams): URLSearchParams {
+  [...new Set(params.keys())]
+    .filter(key =>
+      key === FILTER_VERSION_PARAM ||
+      key === DEFAULTS_OFF_PARAM ||
+      key.startsWith(LOCATION_PREFIX) ||
+      key in FILTER_SCHEMA)
+    .forEach(key => params.delete(key));
+  return params;
+}
+
+/**
+ * Add the organization defaults turned off for this search (call after
+ * encodeFilters, which clears them)
+ */
+export function encodeDefaultsOff(keys: FilterKey[], params: URLSearchParams): URLSearchParams {
+  keys.forEach(key => params.append(DEFAULTS_OFF_PARAM, key));
+  return params;
+}
+
+/**
+ * Organization defaults turned off, keeping only filter field names
+ */
+export function decodeDefaultsOff(params: URLSearchParams): FilterKey[] {
+  return params.getAll(DEFAULTS_OFF_PARAM).filter((key): key is FilterKey => key in FILTER_SCHEMA);
+}
+
+function encodeLocation(location: SearchLocation, params: URLSearchParams) {
+  params.set(`${LOCATION_PREFIX}address`, location.address);
+  if (location.city !== undefined) params.set(`${LOCATION_PREFIX}city`, location.city);
+  if (location.state !== undefined) params.set(`${LOCATION_PREFIX}state`, location.state);
+  if (location.postalCode !== undefined) params.set(`${LOCATION_PREFIX}postal_code`, location.postalCode);
+  if (location.coordinates) {
+    params.set(`${LOCATION_PREFIX}lat`, String(location.coordinates.lat));
+    params.set(`${LOCATION_PREFIX}lon`, String(location.coordinates.lon));
+  }
+}
+
+function decodeLocation(params: URLSearchParams): SearchLocation | undefined {
+  const address = params.get(`${LOCATION_PREFIX}address`);
+  if (address === null) return undefined;
+
+  const location: SearchLocation = { address };
+  const city = params.get(`${LOCATION_PREFIX}city`);
+  const state = params.get(`${LOCATION_PREFIX}state`);
+  const postalCode = params.get(`${LOCATION_PREFIX}postal_code`);
+  const lat = Number(params.get(`${LOCATION_PREFIX}lat`) ?? NaN);
+  const lon = Number(params.get(`${LOCATION_PREFIX}lon`) ?? NaN);
+
+  if (city !== null) location.city = city;
+  if (state !== null) location.state = state;
+  if (postalCode !== null) location.postalCode = postalCode;
+  if (Number.isFinite(lat) && Number.isFinite(lon)) location.coordinates = { lat, lon };
+
+  return location;
+}
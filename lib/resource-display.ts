@@ -0,0 +1,45 @@
+/**
+ * Resource Display Helpers
+ *
+ * Shared by CrisisResourceCard and the resource detail page so both views
+ * show the same trust level, distance and verification age for a facility.
+ */
+
+import type { ResourceSearchResult } from '@/types/search';
+
+export type TrustLevel = 'verified' | 'good' | 'low';
+
+/**
+ * Resource Confidence Score for display (provenance first, then service average)
+ */
+export function getResourceRcs(resource: Pick<ResourceSearchResult, 'provenance' | 'avg_rcs'>): number {
+  return resource.provenance?.rcs || resource.avg_rcs || 0;
+}
+
+/**
+ * Trust level based on RCS
+ */
+export function getTrustLevel(rcs: number): { level: TrustLevel; label: string } {
+  if (rcs >= 0.85) return { level: 'verified', label: 'Verified' };
+  if (rcs >= 0.7) return { level: 'good', label: 'Good Confidence' };
+  return { level: 'low', label: 'Low Confidence' };
+}
+
+/**
+ * Format distance in miles [bead v3n2]
+ */
+export function formatDistance(miles?: number): string | null {
+  if (miles === undefined) return null;
+  return miles < 0.1
+    ? `${Math.round(miles * 5280)} ft`
+    : `${miles.toFixed(1)} mi`;
+}
+
+/**
+ * Whole days since an ISO timestamp (null if never verified)
+ */
+export function daysSince(timestamp?: string): number | null {
+  return timestamp
+    ? Math.floor((Date.now() - new Date(timestamp).getTime()) / (1000 * 60 * 60 * 24))
+    : null;
+}
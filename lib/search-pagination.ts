@@ -0,0 +1,81 @@
+/**
+ * Search Result Pagination Helpers
+ *
+ * Two modes for the crisis results list:
+ * - pages: numbered pages, one page in memory at a time
+ * - infinite: pages accumulate as the worker scrolls / clicks "Load more"
+ */
+
+import type { SearchResponse } from '@/types/search';
+import { MAX_SEARCH_LIMIT } from '@/lib/api/filter-schema';
+
+export type PaginationMode = 'pages' | 'infinite';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const PAGE_SIZE_OPTIONS = [10, 20, 50];
+
+const PAGINATION_MODE_STORAGE_KEY = 'crisis_results_pagination_mode';
+
+/**
+ * limit/offset for showing `page`, and the last page the window covers.
+ * Infinite mode loads everything up to `page` in one request, so returning
+ * to a deep page (e.g. "back" from a resource) restores the whole list -
+ * as many whole pages as fit in MAX_SEARCH_LIMIT; "Load more" continues
+ * from the returned page.
+ */
+export function getPageWindow(
+  page: number,
+  pageSize: number,
+  mode: PaginationMode
+): { limit: number; offset: number; page: number } {
+  if (mode === 'pages') {
+    return { limit: pageSize, offset: (page - 1) * pageSize, page };
+  }
+
+  const pages = Math.max(1, Math.min(page, Math.floor(MAX_SEARCH_LIMIT / pageSize)));
+  return { limit: Math.min(pages * pageSize, MAX_SEARCH_LIMIT), offset: 0, page: pages };
+}
+
+/**
+ * Whether more results exist after the loaded window
+ */
+export function hasMoreResults(response: SearchResponse): boolean {
+  if (response.pagination) {
+    return response.pagination.has_more;
+  }
+  return response.items.length < response.total;
+}
+
+/**
+ * Append a newly loaded page, dropping resources already in the list
+ * (results can shift between requests as availability changes)
+ */
+export function mergeResultPages(current: SearchResponse, next: SearchResponse): SearchResponse {
+  const seen = new Set(current.items.map(item => item.id));
+  const newItems = next.items.filter(item => !seen.has(item.id));
+
+  return {
+    ...next,
+    items: [...current.items, ...newItems],
+  };
+}
+
+/**
+ * Parse a 1-based page number from the URL
+ */
+export function parsePageParam(value: string | null): number {
+  const page = Number(value);
+  return Number.isInteger(page) && page > 0 ? page : 1;
+}
+
+/**
+ * Persisted pagination mode preference
+ */
+export function loadPaginationMode(): PaginationMode {
+  if (typeof window === 'undefined') return 'infinite';
+  return localStorage.getItem(PAGINATION_MODE_STORAGE_KEY) === 'pages' ? 'pages' : 'infinite';
+}
+
+export function savePaginationMode(mode: PaginationMode) {
+  localStorage.setItem(PAGINATION_MODE_STORAGE_KEY, mode);
+}
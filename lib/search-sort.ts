@@ -0,0 +1,135 @@
+/**
+ * Search Result Sorting
+ *
+ * Sort options for the results header, plus the deterministic re-sort
+ * /api/resources/search applies when the backend ignores sort_by.
+ * Ties are broken by tier (primary before secondary before suppressed),
+ * then by resource id so the same results always come back in the same order.
+ */
+
+import type {
+  CanonicalSearchFilters,
+  ResourceSearchResult,
+  SearchResponse,
+  SortField,
+  SortOrder,
+} from '@/types/search';
+
+export interface SortOption {
+  value: SortField;
+  label: string;
+  /** Direction used when the worker picks this option */
+  defaultOrder: SortOrder;
+  /** Only meaningful with a search location */
+  requiresLocation?: boolean;
+}
+
+export const SORT_OPTIONS: SortOption[] = [
+  { value: 'relevance', label: 'Best match', defaultOrder: 'desc' },
+  { value: 'distance', label: 'Closest first', defaultOrder: 'asc', requiresLocation: true },
+  { value: 'transit_time', label: 'Shortest transit', defaultOrder: 'asc', requiresLocation: true },
+  { value: 'last_verified', label: 'Recently verified', defaultOrder: 'desc' },
+  { value: 'rcs', label: 'Highest confidence', defaultOrder: 'desc' },
+  { value: 'match_score', label: 'Match score', defaultOrder: 'desc' },
+];
+
+const TIER_RANK: Record<NonNullable<ResourceSearchResult['tier']>, number> = {
+  primary: 0,
+  secondary: 1,
+  suppressed: 2,
+};
+
+/**
+ * Direction for a sort field when the request doesn't specify one
+ */
+export function getDefaultSortOrder(sortBy: SortField): SortOrder {
+  return SORT_OPTIONS.find(option => option.value === sortBy)?.defaultOrder ?? 'desc';
+}
+
+/**
+ * Numeric sort key for a result (undefined = no data, always sorted last)
+ */
+function getSortValue(item: ResourceSearchResult, sortBy: SortField): number | undefined {
+  switch (sortBy) {
+    case 'distance':
+      return item.distance_miles;
+    case 'transit_time':
+      return item.transit_time_min;
+    case 'match_score':
+    case 'relevance':
+      return item.match_score;
+    case 'rcs':
+      return item.provenance?.rcs || item.avg_rcs || undefined;
+    case 'last_verified': {
+      const verifiedAt = item.provenance?.last_verified_at
+        ? Date.parse(item.provenance.last_verified_at)
+        : NaN;
+      return Number.isNaN(verifiedAt) ? undefined : verifiedAt;
+    }
+  }
+}
+
+function tierRank(item: ResourceSearchResult): number {
+  return item.tier ? TIER_RANK[item.tier] : TIER_RANK.primary;
+}
+
+/**
+ * Sort results by field and direction. Missing values go last regardless of
+ * direction; ties fall back to tier, then id.
+ */
+export function sortResults(
+  items: ResourceSearchResult[],
+  sortBy: SortField,
+  sortOrder: SortOrder = getDefaultSortOrder(sortBy)
+): ResourceSearchResult[] {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+
+  return [...items].sort((a, b) => {
+    const aValue = getSortValue(a, sortBy);
+    const bValue = getSortValue(b, sortBy);
+
+    if (aValue !== bValue) {
+      if (aValue === undefined) return 1;
+      if (bValue === undefined) return -1;
+      return (aValue - bValue) * direction;
+    }
+
+    return tierRank(a) - tierRank(b) || a.id.localeCompare(b.id);
+  });
+}
+
+/**
+ * Apply the requested sort to a search response unless the backend already
+ * did (it echoes sort_by in filters_applied when supported).
+ *
+ * A local sort orders this response only: the current numbered page, or
+ * the window infinite scroll has loaded. The search route reports a
+ * SORT_PARTIAL warning whenever other results exist outside it.
+ */
+export function applyRequestedSort(
+  response: SearchResponse,
+  filters: Pick<CanonicalSearchFilters, 'sort_by' | 'sort_order'>
+): SearchResponse {
+  const { sort_by: sortBy } = filters;
+  if (!sortBy || sortBy === 'relevance') {
+    return response;
+  }
+
+  const sortOrder = filters.sort_order ?? getDefaultSortOrder(sortBy);
+  const backendSorted =
+    response.applied_filters.sort_by === sortBy &&
+    (response.applied_filters.sort_order ?? sortOrder) === sortOrder;
+
+  return {
+    ...response,
+    items: backendSorted ? response.items : sortResults(response.items, sortBy, sortOrder),
+    metadata: {
+      ...response.metadata,
+      sort: {
+        sort_by: sortBy,
+        sort_order: sortOrder,
+        applied_by: backendSorted ? 'backend' : 'local',
+      },
+    },
+  };
+}
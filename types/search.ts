@@ -122,7 +122,7 @@ export interface CanonicalSearchFilters {
   /** Serves justice-involved individuals */
   serves_justice_involved?: boolean;
 
-  /** Age groups served (child, adolescent, young_adult, adult, older_adult, all_ages) */
+  /** Age groups served (child, teen, adult, senior - mapped to backend codes in transform) */
   age_groups?: AgeGroup[];
 
   /** Filter by gender served (male-only, female-only) - Implemented in bead q7cl */
@@ -307,7 +307,7 @@ export interface ResourceSearchResult {
   description?: string;
 
   /** Resource type */
-  type: 'facility' | 'organization';
+  type: 'facility' | 'organization' | 'service';
 
   /** Location information */
   city?: string;
@@ -339,6 +339,7 @@ export interface ResourceSearchResult {
   services?: Array<{
     id: string;
     name: string;
+    description?: string;
     service_type?: string; // Canonical service type code
     rcs?: number;
   }>;
@@ -356,6 +357,98 @@ export interface ResourceSearchResult {
   tier?: 'primary' | 'secondary' | 'suppressed';
 }
 
+/**
+ * Full resource detail (GET /api/resources/[id])
+ *
+ * Superset of ResourceSearchResult so the card and detail page read the
+ * same field names, trust levels and distance units for a facility.
+ */
+export interface ResourceDetail extends ResourceSearchResult {
+  /** Structured street address */
+  address: {
+    street?: string;
+    city?: string;
+    state?: string;
+    postal_code?: string;
+    /** Single-line address for display and directions */
+    formatted?: string;
+  };
+
+  /** Free-text opening hours */
+  hours_text?: string;
+
+  /** Language labels offered (e.g. "Spanish") */
+  languages?: string[];
+
+  availability_status?: AvailabilityStatus;
+  financial_access?: FinancialAccess;
+  accessibility_details?: AccessibilityDetails;
+  transportation_info?: TransportationInfo;
+  population_policies?: PopulationPolicies;
+}
+
+/**
+ * How a requested filter was applied to a search
+ * - server: the backend filtered on it
+ * - local: /api/resources/search post-filtered the backend results
+ * - unenforced: no data to filter on - results may not satisfy it
+ */
+export type FilterEnforcementStatus = 'server' | 'local' | 'unenforced';
+
+export interface FilterEnforcement {
+  status: FilterEnforcementStatus;
+  /** Results removed by the local post-filter */
+  excluded?: number;
+  /** Results kept because they have no data for this filter */
+  unknown?: number;
+  /** Why the filter couldn't be enforced */
+  reason?: string;
+}
+
+/**
+ * Filters echoed back with a search response, plus per-filter enforcement
+ */
+export type AppliedFilters = CanonicalSearchFilters & {
+  enforcement?: Partial<Record<keyof CanonicalSearchFilters, FilterEnforcement>>;
+};
+
+/**
+ * Machine-readable search warning codes
+ * - FILTER_UNSUPPORTED: a requested filter could not be applied at all
+ * - FILTER_PARTIAL: a filter was applied, but some results have no data for it
+ * - DEFAULT_QUERY_INJECTED: no query/services given, so a default was searched
+ * - LOCATION_MISSING: no location, so results aren't distance-limited or ranked
+ */
+export type SearchWarningCode =
+  | 'FILTER_UNSUPPORTED'
+  | 'FILTER_PARTIAL'
+  | 'DEFAULT_QUERY_INJECTED'
+  | 'LOCATION_MISSING'
+  | 'SORT_PARTIAL';
+
+export interface SearchWarning {
+  code: SearchWarningCode;
+  /** Worker-facing explanation */
+  message: string;
+  /** Filter the warning is about (FILTER_* codes) */
+  filter?: keyof CanonicalSearchFilters;
+}
+
+/**
+ * Default filters from the caller's organization profile, applied by the
+ * search route to fields the request left unset
+ */
+export interface OrganizationDefaults {
+  /** Profile name shown to the worker */
+  profile: string;
+
+  /** Defaults this search ran with */
+  applied: CanonicalSearchFilters;
+
+  /** Defaults the request overrode with its own value or turned off */
+  overridden: Array<keyof CanonicalSearchFilters>;
+}
+
 /**
  * Search API response
  */
@@ -366,8 +459,21 @@ export interface SearchResponse {
   /** Total count (for pagination) */
   total: number;
 
+  /** Window of results returned */
+  pagination?: {
+    limit: number;
+    offset: number;
+    has_more: boolean;
+  };
+
   /** Filters that were applied (echo back) */
-  applied_filters: CanonicalSearchFilters;
+  applied_filters: AppliedFilters;
+
+  /** Anything that makes results differ from what was asked for */
+  warnings?: SearchWarning[];
+
+  /** Organization defaults (absent when the caller's organization has no profile) */
+  organization_defaults?: OrganizationDefaults;
 
   /** Search metadata */
   metadata: {
@@ -377,6 +483,31 @@ export interface SearchResponse {
     /** Whether results were cached */
     from_cache: boolean;
 
+    /** Cache outcome: fresh hit, stale (revalidating in background) or miss */
+    cache_status?: 'hit' | 'stale' | 'miss';
+
+    /** Age of cached results in ms (0 when freshly fetched) */
+    cache_age_ms?: number;
+
+    /** Over-fetch stats when filters were enforced locally */
+    post_filter?: {
+      /** Backend results evaluated */
+      fetched: number;
+      /** Results that passed the local filters */
+      kept: number;
+      /** Backend requests made */
+      rounds: number;
+      /** total is extrapolated from the kept ratio */
+      total_estimated: boolean;
+    };
+
+    /** Sort applied to items, and whether the backend or the proxy did it */
+    sort?: {
+      sort_by: SortField;
+      sort_order: SortOrder;
+      applied_by: 'backend' | 'local';
+    };
+
     /** Search timestamp */
     timestamp: string;
   };
@@ -399,9 +530,51 @@ export interface LLMFilterExtractionRequest {
 
     /** Conversation history for context */
     conversation_id?: string;
+
+    /**
+     * Re-run this turn of the conversation with the new query instead of
+     * appending a turn; later turns are replayed on top
+     */
+    edit_turn?: number;
   };
 }
 
+/**
+ * Change a follow-up query makes to the previous filters
+ * ("now only ones that take Medicaid" -> set insurance)
+ */
+export interface FilterDelta {
+  /** Filters added or changed */
+  set: CanonicalSearchFilters;
+
+  /** Filters cleared */
+  remove: Array<keyof CanonicalSearchFilters>;
+}
+
+/**
+ * One query in a refinement conversation
+ */
+export interface ConversationTurn {
+  /** The query with personal details redacted (see lib/api/pii-redaction) */
+  query: string;
+
+  /** What this turn changed */
+  delta: FilterDelta;
+
+  /** Filters after applying this turn */
+  filters: CanonicalSearchFilters;
+
+  explanation: string;
+}
+
+/**
+ * Refinement history for a conversation_id
+ */
+export interface ConversationState {
+  conversation_id: string;
+  turns: ConversationTurn[];
+}
+
 /**
  * Ambiguity detected during filter extraction
  */
@@ -422,6 +595,52 @@ export interface FilterAmbiguity {
   is_critical: boolean;
 }
 
+/**
+ * One change the filter schema made to an extractor's output
+ * (reported so prompts can be tuned)
+ */
+export interface FilterCoercion {
+  /** Canonical field name (or the unknown key that was dropped) */
+  field: string;
+
+  /**
+   * - renamed_key: "age_group" -> age_groups
+   * - dropped_key: not a CanonicalSearchFilters field
+   * - aliased: "teenager" -> "teen"
+   * - converted: "5 miles" -> 5, "yes" -> true, "medicaid" -> ["medicaid"]
+   * - dropped_value: no canonical equivalent, wrong type or out of range
+   */
+  action: 'renamed_key' | 'dropped_key' | 'aliased' | 'converted' | 'dropped_value';
+
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * Which extractor produced a filter in a hybrid extraction
+ * - rule: the deterministic phrase rules only
+ * - llm: the LLM provider only
+ * - both: both extractors produced the same value (or contributed to a list)
+ */
+export type FilterSource = 'rule' | 'llm' | 'both';
+
+/**
+ * A field where the rule pre-pass and the LLM disagreed
+ */
+export interface FilterConflict {
+  field: keyof CanonicalSearchFilters;
+  rule: unknown;
+  llm: unknown;
+  /** Extractor whose value was kept */
+  winner: 'rule' | 'llm';
+}
+
+/**
+ * Kinds of personal details removed from a query before it reaches an
+ * LLM provider or the logs
+ */
+export type PIICategory = 'name' | 'dob' | 'phone' | 'email' | 'address' | 'ssn' | 'mrn';
+
 /**
  * LLM filter extraction response
  */
@@ -441,6 +660,15 @@ export interface LLMFilterExtractionResponse {
   /** Detected ambiguities requiring clarification */
   ambiguities?: FilterAmbiguity[];
 
+  /** Change to the previous filters (follow-up queries in a conversation) */
+  delta?: FilterDelta;
+
+  /** Refinement history, when the request had a conversation_id */
+  conversation?: ConversationState;
+
+  /** Extractor behind each filter this query set (see FilterSource) */
+  provenance?: Partial<Record<keyof CanonicalSearchFilters, FilterSource>>;
+
   /** Metadata */
   metadata: {
     /** LLM provider used */
@@ -454,9 +682,62 @@ export interface LLMFilterExtractionResponse {
       input: number;
       output: number;
     };
+
+    /** Repairs needed to parse the model output as JSON */
+    json_repairs?: string[];
+
+    /** Changes the filter schema made to the extracted filters */
+    coercions?: FilterCoercion[];
+
+    /** Disagreements between the rule pre-pass and the LLM */
+    conflicts?: FilterConflict[];
+
+    /** Personal details replaced with placeholders before extraction */
+    redacted?: PIICategory[];
+
+    /** Whether the LLM result came from the extraction cache */
+    cache?: 'hit' | 'stale' | 'miss';
   };
 }
 
+/**
+ * One line of the streaming extract-filters response (NDJSON, requested
+ * with Accept: application/x-ndjson), in the order they are sent:
+ * - received / redacted: the query was accepted and its personal details removed
+ * - partial_filters: the rule pre-pass; for a follow-up, already merged with
+ *   the conversation's filters
+ * - provider_attempt / provider_failed: one LLM provider call
+ * - fallback: every provider failed, the rules alone decide
+ * - filters_ready: the final response (same body as the non-streaming call)
+ * - error: extraction failed, nothing more follows
+ */
+export type ExtractionStreamEvent =
+  | { stage: 'received' }
+  | { stage: 'redacted'; redacted: PIICategory[] }
+  | { stage: 'partial_filters'; filters: CanonicalSearchFilters }
+  | { stage: 'provider_attempt'; provider: string; attempt: number }
+  | { stage: 'provider_failed'; provider: string; attempt: number }
+  | { stage: 'fallback' }
+  | { stage: 'filters_ready'; response: LLMFilterExtractionResponse }
+  | { stage: 'error'; error: string };
+
+/**
+ * A named search a worker saved to launch again (GET /api/saved-searches)
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+
+  /** Query as the worker typed it */
+  query: string;
+
+  filters: CanonicalSearchFilters;
+
+  /** ISO 8601 timestamps */
+  created_at: string;
+  updated_at: string;
+}
+
 /**
  * Helper type for URL serialization
  */
@@ -468,6 +749,7 @@ export type SerializedFilters = Record<string, string | string[]>;
 export const FilterUtils = {
   /**
    * Serialize filters to URL query parameters
+   * @deprecated Lossy - use encodeFilters from lib/filter-url
    */
   toURLParams(filters: CanonicalSearchFilters): URLSearchParams {
     const params = new URLSearchParams();
@@ -489,6 +771,7 @@ export const FilterUtils = {
 
   /**
    * Parse filters from URL query parameters
+   * @deprecated Lossy - use decodeFilters from lib/filter-url (kept for unversioned params)
    */
   fromURLParams(params: URLSearchParams): CanonicalSearchFilters {
     const filters: CanonicalSearchFilters = {};
@@ -524,12 +807,13 @@ export const FilterUtils = {
   },
 
   /**
-   * Count active filters (excluding pagination)
+   * Count active filters (excluding pagination, sort, free text and location,
+   * which come from the search box and the page; empty lists don't count)
    */
   countActive(filters: CanonicalSearchFilters): number {
-    const { limit, offset, sort_by, sort_order, ...activeFilters } = filters;
-    return Object.keys(activeFilters).filter(
-      key => activeFilters[key as keyof typeof activeFilters] !== undefined
+    const { limit, offset, sort_by, sort_order, keywords, location, ...activeFilters } = filters;
+    return Object.values(activeFilters).filter(
+      value => value !== undefined && !(Array.isArray(value) && value.length === 0)
     ).length;
   },
 
@@ -575,6 +859,52 @@ export interface AvailabilityStatus {
   notes?: string;
 }
 
+/**
+ * Financial access details from facilities table
+ */
+export interface FinancialAccess {
+  insurance_accepted?: string[];
+  sliding_scale?: boolean;
+  charity_care?: boolean;
+  free_services?: boolean;
+  cost_per_session?: number;
+  notes?: string;
+}
+
+/**
+ * Accessibility details from facilities table
+ */
+export interface AccessibilityDetails {
+  wheelchair_accessible?: boolean;
+  asl_interpretation?: boolean;
+  telehealth_available?: boolean;
+  notes?: string;
+}
+
+/**
+ * Transportation details from facilities table
+ */
+export interface TransportationInfo {
+  public_transit?: boolean;
+  parking?: boolean;
+  ride_programs?: boolean;
+  notes?: string;
+}
+
+/**
+ * Population policies from facilities table
+ */
+export interface PopulationPolicies {
+  lgbtq_affirming?: boolean;
+  serves_undocumented?: boolean;
+  serves_justice_involved?: boolean;
+  gender_specific?: 'male' | 'female' | null;
+  age_groups?: string[];
+  walk_ins_accepted?: boolean;
+  referral_required?: boolean;
+  notes?: string;
+}
+
 /**
  * Search result from v2 API
  */
@@ -591,7 +921,12 @@ export interface SearchResultV2 {
     last_verified_at: string | null;
     confidence_score: number;
     days_since_verification: number | null;
+    verification_method?: 'automated' | 'manual' | 'community';
+    verified_by?: string;
+    data_completeness?: number;
   };
+  /** Result tier for phase-gated search (bead 0fxp) */
+  tier?: 'primary' | 'secondary' | 'suppressed';
   details: {
     name: string;
     display_name?: string;
@@ -603,26 +938,42 @@ export interface SearchResultV2 {
     city?: string;
     state?: string;
     postal_code?: string;
+    latitude?: number;
+    longitude?: number;
     distance_km?: number;
     hours_text?: string;
     languages_supported?: any;
     canonical_languages?: string[];
     language_labels?: string[];
     services: Array<{
+      id?: string;
       name: string;
       description?: string;
       canonical_type?: string;
       type_label?: string;
       raw_type?: string;
     }>;
-    transportation_info?: any;
-    accessibility_details?: any;
-    financial_access?: any;
+    transportation_info?: TransportationInfo;
+    accessibility_details?: AccessibilityDetails;
+    financial_access?: FinancialAccess;
     availability_status?: AvailabilityStatus;
-    population_policies?: any;
+    population_policies?: PopulationPolicies;
   };
 }
 
+/**
+ * Resource detail from v2 API (GET /v2/resources/{id})
+ * Same shape as a search result, without match information.
+ */
+export type ResourceDetailV2 = Omit<SearchResultV2, 'match'> & {
+  match?: SearchResultV2['match'];
+};
+
+/**
+ * Vocabulary entry echoed by the v2 API (plain code or code + label)
+ */
+export type BackendVocabularyItem = string | { code: string; label?: string };
+
 /**
  * Search response from v2 API
  */
@@ -632,15 +983,28 @@ export interface SearchResponseV2 {
   filters_applied: {
     query?: string;
     refined_query?: string;
-    service_types: string[];
-    insurance_types: string[];
-    languages: string[];
+    service_types: BackendVocabularyItem[];
+    insurance_types: BackendVocabularyItem[];
+    languages: BackendVocabularyItem[];
+    age_groups?: string[];
     location?: string;
     radius_km?: number;
     verified_only: boolean;
     min_confidence?: number;
     accepting_new_patients?: boolean;
     urgent_access_only?: boolean;
+    has_crisis_services?: boolean;
+    walk_ins_accepted?: boolean;
+    referral_required?: boolean;
+    gender_specific?: 'male' | 'female';
+    lgbtq_affirming?: boolean;
+    wheelchair_accessible?: boolean;
+    telehealth_available?: boolean;
+    care_phase?: CanonicalSearchFilters['care_phase'];
+    sort_by?: SortField;
+    sort_order?: SortOrder;
+    limit?: number;
+    offset?: number;
     urgency_detected?: string;
     query_understanding?: any;
   };